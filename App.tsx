@@ -1,38 +1,188 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useVADRecorder } from './hooks/useVADRecorder';
+import { useWebhookOutbox } from './hooks/useWebhookOutbox';
+import { PlaybackItem, usePlaybackQueue } from './hooks/usePlaybackQueue';
+import { useTranscription } from './hooks/useTranscription';
+import { isJobRunning, useFileImport } from './hooks/useFileImport';
+import { useScheduler } from './hooks/useScheduler';
+import { useRetention } from './hooks/useRetention';
+import { useArchiveLock } from './hooks/useArchiveLock';
+import { useInactivity } from './hooks/useInactivity';
+import { useTabLeader } from './hooks/useTabLeader';
+import { useCaptureShortcuts } from './hooks/useCaptureShortcuts';
 import { Visualizer } from './components/Visualizer';
 import { RecordingCard } from './components/RecordingCard';
-import { AudioSettings, RecorderStatus, Recording, AutomationSettings } from './types';
+import { SessionGroup } from './components/SessionGroup';
+import { WebhookSettings } from './components/WebhookSettings';
+import { TriggerSettings } from './components/TriggerSettings';
+import { TranscriptionSettings } from './components/TranscriptionSettings';
+import { InputSettings } from './components/InputSettings';
+import { ImportJobs } from './components/ImportJobs';
+import { ProfileSettings } from './components/ProfileSettings';
+import { ScheduleSettings } from './components/ScheduleSettings';
+import { RetentionSettings } from './components/RetentionSettings';
+import { EncryptionSettings } from './components/EncryptionSettings';
+import { LockScreen } from './components/LockScreen';
+import { CaptureSettings } from './components/CaptureSettings';
+import { SignalChainSettings } from './components/SignalChainSettings';
+import { AudioSettings, RecorderStatus, Recording, AutomationSettings, OutputFormat, ProcessingSettings, RetentionSettings as Retention, ScheduleSettings as Schedule, Session } from './types';
+import { sessionSegments } from './services/sessions';
+import { FORMAT_LABELS, isFormatSupported } from './services/audioFormats';
+import { pingWebhook } from './services/webhook';
+import { openSegmentStream } from './services/segmentStream';
+import { isScheduled } from './services/schedule';
+import { createPlaybackResume } from './services/playbackResume';
+import { SHARED_PARAM, takeSharedFiles } from './services/serviceWorker';
+import { recordingBytes } from './services/retention';
+import {
+  SettingsProfile,
+  applyProfile,
+  createProfile,
+  parseProfile,
+  restoreAudioSettings,
+  restoreAutomationSettings,
+  restoreProcessingSettings,
+  restoreProfiles,
+  restoreRetentionSettings,
+  restoreScheduleSettings,
+  storeProfiles
+} from './services/settingsProfiles';
+import { TransportState, TriggerTransport, createTriggerTransport, triggerEndpoint } from './services/triggerTransport';
+import { CommandError, CommandReply, DeviceStatus, RemoteCommand, buildReply, parseCommand } from './services/remoteCommands';
 
 interface TriggerLog {
+  id: string;
   timestamp: number;
   url: string;
-  status: 'received' | 'playing' | 'error' | 'done';
+  status: 'received' | 'queued' | 'playing' | 'skipped' | 'error' | 'done';
   errorDetails?: string;
 }
 
+const LOG_STATUS_STYLES: Record<TriggerLog['status'], string> = {
+  received: 'text-blue-500',
+  queued: 'text-amber-500',
+  playing: 'text-blue-400 animate-pulse',
+  skipped: 'text-white/30',
+  error: 'text-red-500',
+  done: 'text-green-500'
+};
+
 const STORAGE_KEYS = {
   SETTINGS: 'vf_audio_settings',
-  AUTOMATION: 'vf_automation_settings'
+  AUTOMATION: 'vf_automation_settings',
+  PROCESSING: 'vf_processing_settings',
+  PROFILES: 'vf_profiles',
+  ACTIVE_PROFILE: 'vf_active_profile',
+  SCHEDULE: 'vf_schedule',
+  RETENTION: 'vf_retention'
+};
+
+// Trigger settings have to hold still this long before the transport
+// reconnects with them.
+const TRANSPORT_SETTLE_MS = 600;
+
+const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  captureMode: 'vad',
+  timedDuration: 30,
+  detector: 'energy-band',
+  sensitivity: 25,
+  silenceTimeout: 1500,
+  preRoll: 500,
+  postRoll: 300,
+  minSpeechDuration: 120,
+  hysteresis: 6,
+  calibrationDuration: 1500,
+  outputFormat: 'auto',
+  autoStart: true,
+  halfDuplex: true,
+  playbackTail: 800,
+  deviceId: '',
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  channelCount: 1,
+  sampleRate: 0,
+  maxSegmentDuration: 300,
+  highPassFrequency: 0,
+  gateThreshold: 0,
+  compressorThreshold: 0,
+  compressorRatio: 4,
+  makeupGain: 0,
+  normalizeTarget: 0
+};
+
+const createDefaultAutomation = (): AutomationSettings => ({
+  remoteTriggerId: `vf-${Math.random().toString(36).substring(2, 11)}`,
+  triggerTransport: 'ntfy',
+  ntfyBaseUrl: '',
+  ntfyToken: '',
+  triggerUrl: '',
+  mqttUrl: '',
+  mqttUsername: '',
+  mqttPassword: '',
+  replyTopic: '',
+  webhookUrl: '',
+  deviceName: '',
+  payloadShape: 'multipart',
+  authType: 'none',
+  authToken: '',
+  authUsername: '',
+  authPassword: '',
+  customHeaders: [],
+  signingSecret: '',
+  streamMode: 'off',
+  streamUrl: '',
+  streamTimeslice: 1000
+});
+
+const DEFAULT_PROCESSING_SETTINGS: ProcessingSettings = {
+  transcriptionProvider: 'none',
+  transcriptionUrl: '',
+  transcriptionApiKey: '',
+  transcriptionModel: '',
+  language: '',
+  summaryProvider: 'none',
+  summaryUrl: '',
+  summaryApiKey: '',
+  summaryModel: '',
+  summaryPrompt: ''
+};
+
+const DEFAULT_SCHEDULE: Schedule = {
+  enabled: false,
+  timeZone: '',
+  windows: [],
+  oneOff: [],
+  quietHours: []
+};
+
+const DEFAULT_RETENTION: Retention = {
+  maxAgeDays: 0,
+  maxSizeMB: 0,
+  maxCount: 0
 };
 
 const App: React.FC = () => {
-  const [settings, setSettings] = useState<AudioSettings>(() => {
-    const saved = localStorage.getItem(STORAGE_KEYS.SETTINGS);
-    return saved ? JSON.parse(saved) : {
-      sensitivity: 25,
-      silenceTimeout: 1500,
-      autoStart: true
-    };
-  });
+  const [settings, setSettings] = useState<AudioSettings>(() =>
+    restoreAudioSettings(localStorage.getItem(STORAGE_KEYS.SETTINGS), DEFAULT_AUDIO_SETTINGS));
 
-  const [automation, setAutomation] = useState<AutomationSettings>(() => {
-    const saved = localStorage.getItem(STORAGE_KEYS.AUTOMATION);
-    return saved ? JSON.parse(saved) : {
-      remoteTriggerId: `vf-${Math.random().toString(36).substring(2, 11)}`,
-      webhookUrl: ''
-    };
-  });
+  const [automation, setAutomation] = useState<AutomationSettings>(() =>
+    restoreAutomationSettings(localStorage.getItem(STORAGE_KEYS.AUTOMATION), createDefaultAutomation()));
+
+  const [processingSettings, setProcessingSettings] = useState<ProcessingSettings>(() =>
+    restoreProcessingSettings(localStorage.getItem(STORAGE_KEYS.PROCESSING), DEFAULT_PROCESSING_SETTINGS));
+
+  const [schedule, setSchedule] = useState<Schedule>(() =>
+    restoreScheduleSettings(localStorage.getItem(STORAGE_KEYS.SCHEDULE), DEFAULT_SCHEDULE));
+
+  const [retention, setRetention] = useState<Retention>(() =>
+    restoreRetentionSettings(localStorage.getItem(STORAGE_KEYS.RETENTION), DEFAULT_RETENTION));
+
+  // Profiles fill fields they do not mention from the app defaults.
+  const [profileDefaults] = useState(() => ({ audio: DEFAULT_AUDIO_SETTINGS, automation: createDefaultAutomation() }));
+  const [profiles, setProfiles] = useState<SettingsProfile[]>(() =>
+    restoreProfiles(localStorage.getItem(STORAGE_KEYS.PROFILES), profileDefaults));
+  const [activeProfile, setActiveProfile] = useState<string | null>(() => localStorage.getItem(STORAGE_KEYS.ACTIVE_PROFILE));
 
   useEffect(() => {
     localStorage.setItem(STORAGE_KEYS.SETTINGS, JSON.stringify(settings));
@@ -42,34 +192,295 @@ const App: React.FC = () => {
     localStorage.setItem(STORAGE_KEYS.AUTOMATION, JSON.stringify(automation));
   }, [automation]);
 
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.PROCESSING, JSON.stringify(processingSettings));
+  }, [processingSettings]);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.SCHEDULE, JSON.stringify(schedule));
+  }, [schedule]);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.RETENTION, JSON.stringify(retention));
+  }, [retention]);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEYS.PROFILES, storeProfiles(profiles));
+  }, [profiles]);
+
+  useEffect(() => {
+    if (activeProfile) localStorage.setItem(STORAGE_KEYS.ACTIVE_PROFILE, activeProfile);
+    else localStorage.removeItem(STORAGE_KEYS.ACTIVE_PROFILE);
+  }, [activeProfile]);
+
+  // A profile with the same name is replaced.
+  const storeProfile = (profile: SettingsProfile) => {
+    setProfiles(prev => [...prev.filter(p => p.name !== profile.name), profile].sort((a, b) => a.name.localeCompare(b.name)));
+  };
+
+  const activateProfile = (profile: SettingsProfile) => {
+    const applied = applyProfile(profile, { audio: settings, automation });
+    setSettings(applied.audio);
+    setAutomation(applied.automation);
+    setActiveProfile(profile.name);
+    setLastLog(`Profile: ${profile.name}`);
+  };
+
+  const findProfile = (name: string) => {
+    const profile = profiles.find(p => p.name === name);
+    if (!profile) throw new Error(`No profile ${name}`);
+    return profile;
+  };
+
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
-  const [isAutomationRunning, setIsAutomationRunning] = useState(false);
   const [lastLog, setLastLog] = useState<string>('');
   const [triggerLogs, setTriggerLogs] = useState<TriggerLog[]>([]);
   const [hasStartedOnce, setHasStartedOnce] = useState(false);
+  const [triggerState, setTriggerState] = useState<TransportState>('disconnected');
+  const [triggerDetail, setTriggerDetail] = useState<string | undefined>();
+  const [lastError, setLastError] = useState<string | null>(null);
+
+  const archiveLock = useArchiveLock();
+
+  // Capture this tab inherited from a closed one. A tab that was never
+  // initialised cannot open the microphone without a tap, and one that was
+  // may still be refused; either way it asks rather than going quiet.
+  const [handover, setHandover] = useState<{ isContinuous: boolean; attempted: boolean } | null>(null);
+
+  // One tab owns the microphone, triggers and outbox; the others mirror it.
+  // When it closes the next tab takes over, and keeps listening if it was.
+  const tabs = useTabLeader({
+    onElected: (previous) => {
+      if (!previous || previous.status === RecorderStatus.IDLE || previous.status === RecorderStatus.ERROR) return;
+      setHandover({ isContinuous: previous.isContinuous, attempted: hasStartedOnce });
+      if (!hasStartedOnce) {
+        setLastLog("Took Over: Tap To Resume Capture");
+        return;
+      }
+      setLastLog("Took Over From Closed Tab");
+      toggleListen(previous.isContinuous);
+    },
+    onArchiveChange: (change) => applyArchiveChange(change)
+  });
 
   const {
     status,
     recordings,
     currentVolume,
+    voiceThreshold,
+    isCalibrating,
     silenceProgress,
     recordingDuration,
     isContinuous,
+    isArchiveLoaded,
+    isPaused,
+    sessions,
     toggleListen,
+    setPaused,
+    suspendDetection,
+    recordFor,
+    pushToTalk,
+    mark,
+    monitorMode,
+    monitor,
+    recalibrate,
+    addImported,
     deleteRecording,
     setRecordings,
-    shutdown
-  } = useVADRecorder(settings);
+    shutdown,
+    snapshot,
+    applyArchiveChange
+  } = useVADRecorder(settings, {
+    // Only called once capturing, by which time the outbox below exists.
+    openStream: (segment) => {
+      const stream = openSegmentStream(automation, segment, setLastError);
+      if (stream) trackStream(segment.id, stream.delivered);
+      return stream;
+    },
+    isArchiveLocked: archiveLock.isLocked,
+    isFollower: !tabs.isLeader,
+    mirror: tabs.mirror,
+    onArchiveWrite: tabs.announceArchive
+  });
+
+  useEffect(() => {
+    tabs.publish(snapshot);
+  }, [snapshot, tabs.publish]);
+
+  const { deliveries, isOutboxLoaded, resend, trackStream } = useWebhookOutbox({
+    recordings,
+    isArchiveLoaded,
+    automation,
+    isActive: tabs.isLeader,
+    onLog: setLastLog,
+    onError: setLastError
+  });
+
+  const retentionState = useRetention({
+    recordings,
+    deliveries,
+    isLoaded: isArchiveLoaded && isOutboxLoaded,
+    isForwarding: !!automation.webhookUrl,
+    settings: retention,
+    onExpire: (ids) => ids.forEach(deleteRecording),
+    onLog: setLastLog
+  });
+
+  const fileImport = useFileImport({
+    settings,
+    onImported: addImported,
+    onLog: setLastLog
+  });
+  const importInputRef = useRef<HTMLInputElement>(null);
 
-  const lastProcessedId = useRef<string | null>(null);
+  // Segments captured or imported while locked could not be stored, so the
+  // archive only locks once both are idle.
+  const canLock = (status === RecorderStatus.IDLE || status === RecorderStatus.ERROR) && !fileImport.jobs.some(isJobRunning);
+  useInactivity(archiveLock.autoLockMinutes * 60_000, archiveLock.state === 'unlocked' && canLock, archiveLock.lock);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+
+  // Audio shared from other apps is handed over by the service worker, once
+  // the archive is loaded so the imported segments are not overwritten.
+  useEffect(() => {
+    if (!isArchiveLoaded) return;
+    const url = new URL(window.location.href);
+    if (!url.searchParams.has(SHARED_PARAM)) return;
+    url.searchParams.delete(SHARED_PARAM);
+    window.history.replaceState(null, '', url);
+    takeSharedFiles()
+      .then(files => { if (files.length > 0) fileImport.importFiles(files); })
+      .catch(e => setLastError(`Shared files: ${e instanceof Error ? e.message : String(e)}`));
+  }, [isArchiveLoaded, fileImport.importFiles]);
+
+  const { transcribe } = useTranscription({
+    recordings,
+    isArchiveLoaded,
+    settings: processingSettings,
+    setRecordings,
+    isActive: tabs.isLeader,
+    onLog: setLastLog
+  });
+
+  useEffect(() => {
+    if (status === RecorderStatus.ERROR) setLastError('Microphone unavailable');
+  }, [status]);
+
+  // Settled once capture runs, however it was started; a failed attempt
+  // falls back to asking.
+  useEffect(() => {
+    if (!handover) return;
+    if (status === RecorderStatus.ERROR) {
+      if (handover.attempted) setHandover({ ...handover, attempted: false });
+    } else if (status !== RecorderStatus.IDLE && status !== RecorderStatus.STARTING) {
+      setHandover(null);
+    }
+  }, [handover, status]);
+
+  const resumeHandover = async () => {
+    if (!handover) return;
+    setHandover(null);
+    setHasStartedOnce(true);
+    await toggleListen(handover.isContinuous);
+    setLastLog("Capture Resumed");
+  };
+
+  const [playbackResume] = useState(createPlaybackResume);
+
+  const playback = usePlaybackQueue({
+    tailMs: settings.halfDuplex ? settings.playbackTail : 0,
+    onChange: (item: PlaybackItem) => {
+      markLog(item.id, item.state, item.error);
+      if (item.state === 'playing') setLastLog(`Signal Playing...`);
+      if (item.state === 'error') setLastError(`Playback: ${item.error}`);
+    },
+    onIdle: () => {
+      if (playbackResume.shouldResume(deviceStatusRef.current.recorder, schedule, Date.now())) toggleListen(true);
+    }
+  });
+
+  useEffect(() => {
+    playbackResume.observe(status, playback.isActive);
+  }, [playbackResume, status, playback.isActive]);
+
+  // Half-duplex: the microphone would otherwise pick up the speaker and
+  // record remote audio as if it were speech.
+  useEffect(() => {
+    suspendDetection(settings.halfDuplex && playback.isActive);
+  }, [settings.halfDuplex, playback.isActive, suspendDetection]);
+
+  // Command replies report state as it is once the command's updates have
+  // rendered, so they confirm what actually happened.
+  const deviceStatusRef = useRef<DeviceStatus>({ recorder: status, paused: isPaused, archiveSize: recordings.length, lastError });
+  deviceStatusRef.current = { recorder: status, paused: isPaused, archiveSize: recordings.length, lastError };
+  const commitWaitersRef = useRef<(() => void)[]>([]);
+  useEffect(() => {
+    const waiters = commitWaitersRef.current;
+    commitWaitersRef.current = [];
+    waiters.forEach(resolve => resolve());
+  });
+  const afterCommit = () => new Promise<void>(resolve => {
+    commitWaitersRef.current.push(resolve);
+    setTimeout(resolve, 100);
+  });
 
   const startSystem = async () => {
     setHasStartedOnce(true);
+    if (!tabs.isLeader) {
+      setLastLog("System Online: Following Another Tab");
+      return;
+    }
+    // Outside its windows the schedule starts listening when one opens.
+    if (!settings.autoStart || (schedule.enabled && isScheduled(schedule, Date.now()) === false)) {
+      setLastLog("System Online");
+      return;
+    }
     // Start in continuous mode by default for the "start/stop/restart" loop
     await toggleListen(true);
     setLastLog("System Online: Loop Active");
   };
 
+  const scheduler = useScheduler({
+    schedule,
+    isReady: hasStartedOnce && tabs.isLeader && !archiveLock.isLocked,
+    onStart: () => {
+      const recorder = deviceStatusRef.current.recorder;
+      if (recorder !== RecorderStatus.IDLE && recorder !== RecorderStatus.ERROR) return;
+      toggleListen(true);
+      setLastLog("Schedule: Listening");
+    },
+    onStop: () => {
+      const recorder = deviceStatusRef.current.recorder;
+      if (recorder === RecorderStatus.IDLE || recorder === RecorderStatus.ERROR) return;
+      shutdown();
+      setLastLog("Schedule: Stopped");
+    }
+  });
+
+  const isRecorderIdle = status === RecorderStatus.IDLE || status === RecorderStatus.ERROR;
+
+  // Only the tab that owns the microphone listens; a follower's keys would
+  // reach a recorder that is not running.
+  useCaptureShortcuts(hasStartedOnce && tabs.isLeader && !archiveLock.isLocked, {
+    onStart: () => { if (isRecorderIdle) toggleListen(true); },
+    onStop: () => { if (!isRecorderIdle) shutdown(); },
+    onMark: () => {
+      if (status !== RecorderStatus.RECORDING) return;
+      mark();
+      setLastLog("Marked");
+    },
+    onDeleteLast: () => {
+      const last = recordings.find(r => !r.source);
+      if (!last) return;
+      if (last.pinned) {
+        setLastLog("Last Recording Is Pinned");
+        return;
+      }
+      deleteRecording(last.id);
+      setLastLog("Deleted Last Recording");
+    },
+    onTalk: settings.captureMode === 'push-to-talk' ? pushToTalk : undefined
+  });
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text).then(() => {
       setLastLog("Copied to clipboard");
@@ -81,12 +492,7 @@ const App: React.FC = () => {
     if (!automation.webhookUrl) return;
     setLastLog(`Pinging...`);
     try {
-      const res = await fetch(automation.webhookUrl, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ test: true, timestamp: Date.now() }),
-        mode: 'cors'
-      });
+      const res = await pingWebhook(automation);
       if (res.ok) setLastLog(`Ping Success`);
       else setLastLog(`Ping Error: ${res.status}`);
     } catch (err) {
@@ -94,87 +500,193 @@ const App: React.FC = () => {
     }
   };
 
-  const sendToWebhook = async (recording: Recording) => {
-    if (!automation.webhookUrl) return;
-    setLastLog(`Forwarding...`);
-    const formData = new FormData();
-    formData.append('file', recording.blob, `voice-${recording.id}.webm`);
-    try {
-      const res = await fetch(automation.webhookUrl, {
-        method: 'POST',
-        body: formData,
-        mode: 'cors'
-      });
-      if (res.ok) setLastLog(`Forward Complete`);
-      else setLastLog(`Forward Error: ${res.status}`);
-    } catch (err) {
-      setLastLog(`Forward Failed`);
+  // The transport outlives many renders; route messages to the latest handler.
+  const workflowRef = useRef<(payload: string, logId: string) => void>(() => {});
+  const transportRef = useRef<TriggerTransport | null>(null);
+
+  const {
+    triggerTransport, remoteTriggerId, ntfyBaseUrl, ntfyToken, triggerUrl, mqttUrl, mqttUsername, mqttPassword, replyTopic
+  } = automation;
+
+  useEffect(() => {
+    if (!hasStartedOnce || !tabs.isLeader) return;
+
+    const transport = createTriggerTransport(automation, {
+      onMessage: (payload) => {
+        const logId = Math.random().toString(36).substring(2, 11);
+        setTriggerLogs(prev => [{ 
+          id: logId,
+          timestamp: Date.now(), 
+          url: payload.substring(0, 40), 
+          status: 'received' as const 
+        }, ...prev].slice(0, 10));
+        workflowRef.current(payload, logId);
+      },
+      onStateChange: (state, detail) => {
+        setTriggerState(state);
+        setTriggerDetail(detail);
+      }
+    });
+    transportRef.current = transport;
+    // Settings that are still being typed are not connected to.
+    const startTimer = window.setTimeout(() => transport.start(), TRANSPORT_SETTLE_MS);
+    return () => {
+      window.clearTimeout(startTimer);
+      transport.stop();
+      if (transportRef.current === transport) transportRef.current = null;
+    };
+  }, [hasStartedOnce, tabs.isLeader, triggerTransport, remoteTriggerId, ntfyBaseUrl, ntfyToken, triggerUrl, mqttUrl, mqttUsername, mqttPassword, replyTopic]);
+
+  const markLog = (id: string, logStatus: TriggerLog['status'], errorDetails?: string) => {
+    setTriggerLogs(prev => prev.map(log => log.id === id ? { ...log, status: logStatus, errorDetails } : log));
+  };
+
+  const toAudioSource = (payload: string) =>
+    payload.startsWith('http') ? payload : `data:audio/mpeg;base64,${payload}`;
+
+  const sendReply = (reply: CommandReply) => {
+    transportRef.current?.reply(JSON.stringify(reply))
+      .catch(e => console.warn("Command reply failed:", e));
+  };
+
+  const requireRecording = (id: string) => {
+    if (!recordings.some(r => r.id === id)) throw new Error(`No recording ${id}`);
+  };
+
+  const runCommand = async (command: RemoteCommand, logId: string): Promise<unknown> => {
+    switch (command.cmd) {
+      case 'start':
+        if (status === RecorderStatus.IDLE || status === RecorderStatus.ERROR) await toggleListen(true);
+        return;
+      case 'stop':
+        shutdown();
+        return;
+      case 'pause':
+        setPaused(true);
+        return;
+      case 'resume':
+        setPaused(false);
+        return;
+      case 'status':
+        return;
+      case 'set': {
+        const patch: Partial<AudioSettings> = {};
+        if (command.args.sensitivity !== undefined) patch.sensitivity = command.args.sensitivity;
+        if (command.args.silenceTimeout !== undefined) patch.silenceTimeout = command.args.silenceTimeout;
+        setSettings(prev => ({ ...prev, ...patch }));
+        return patch;
+      }
+      case 'record':
+        await recordFor(command.args.seconds);
+        return { seconds: command.args.seconds };
+      case 'delete':
+        requireRecording(command.args.id);
+        deleteRecording(command.args.id);
+        return { id: command.args.id };
+      case 'resend':
+        requireRecording(command.args.id);
+        resend(command.args.id);
+        return { id: command.args.id };
+      case 'play':
+        return { queueId: playback.enqueue(toAudioSource(command.args.source), { id: logId, priority: command.args.priority }) };
+      case 'skip':
+        return { skipped: playback.skip() };
+      case 'profile': {
+        const profile = 'profile' in command.args
+          ? parseProfile(command.args.profile, profileDefaults)
+          : findProfile(command.args.name);
+        if ('profile' in command.args) storeProfile(profile);
+        activateProfile(profile);
+        return { profile: profile.name };
+      }
     }
   };
 
-  useEffect(() => {
-    const latest = recordings[0];
-    if (latest && latest.id !== lastProcessedId.current) {
-      lastProcessedId.current = latest.id;
-      sendToWebhook(latest);
+  const handleAutomationWorkflow = async (payload: string, logId: string) => {
+    let envelope;
+    try {
+      envelope = parseCommand(payload);
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+      setLastLog(`Command Rejected`);
+      setLastError(error);
+      markLog(logId, 'error', error);
+      if (e instanceof CommandError) {
+        sendReply(buildReply({ id: e.id, cmd: e.cmd }, deviceStatusRef.current, { ok: false, error }));
+      }
+      return;
     }
-  }, [recordings]);
 
-  useEffect(() => {
-    if (!hasStartedOnce) return;
-    
-    const eventSource = new EventSource(`https://ntfy.sh/${automation.remoteTriggerId}/sse`);
-    eventSource.onmessage = (event) => {
+    if (envelope) {
+      const { id, command, legacy } = envelope;
+      setLastLog(legacy ? `Signal: ${command.cmd.toUpperCase()}` : `Command: ${command.cmd.toUpperCase()}`);
       try {
-        const data = JSON.parse(event.data);
-        const payload = data.attachment?.url || data.message?.trim();
-        if (payload) {
-          setTriggerLogs(prev => [{ 
-            timestamp: Date.now(), 
-            url: payload.substring(0, 40), 
-            status: 'received' as const 
-          }, ...prev].slice(0, 10));
-          handleAutomationWorkflow(payload);
-        }
+        const result = await runCommand(command, logId);
+        // A queued item's log entry follows its playback state instead.
+        if (command.cmd !== 'play') markLog(logId, 'done');
+        await afterCommit();
+        if (!legacy) sendReply(buildReply({ id, cmd: command.cmd }, deviceStatusRef.current, { ok: true, result }));
       } catch (e) {
-        console.error("Trigger detection error", e);
+        const error = e instanceof Error ? e.message : String(e);
+        setLastError(error);
+        markLog(logId, 'error', error);
+        await afterCommit();
+        if (!legacy) sendReply(buildReply({ id, cmd: command.cmd }, deviceStatusRef.current, { ok: false, error }));
       }
-    };
-    return () => eventSource.close();
-  }, [automation.remoteTriggerId, hasStartedOnce]);
-
-  const handleAutomationWorkflow = async (payload: string) => {
-    const cmd = payload.toLowerCase();
-    if (cmd === 'start') {
-      setLastLog(`Signal: START`);
-      setTriggerLogs(prev => prev.map((log, i) => i === 0 ? { ...log, status: 'done' as const } : log));
-      if (status === RecorderStatus.IDLE) await toggleListen(true);
-      return;
-    }
-    if (cmd === 'stop') {
-      setLastLog(`Signal: STOP`);
-      setTriggerLogs(prev => prev.map((log, i) => i === 0 ? { ...log, status: 'done' as const } : log));
-      shutdown();
       return;
     }
 
-    setIsAutomationRunning(true);
-    setLastLog(`Signal Playing...`);
-    const source = payload.startsWith('http') ? payload : `data:audio/mpeg;base64,${payload}`;
-    const audio = new Audio(source);
-    audio.onplay = () => setTriggerLogs(prev => prev.map((log, i) => i === 0 ? { ...log, status: 'playing' as const } : log));
-    audio.onended = () => {
-      setIsAutomationRunning(false);
-      setTriggerLogs(prev => prev.map((log, i) => i === 0 ? { ...log, status: 'done' as const } : log));
-      if (status === RecorderStatus.IDLE) toggleListen(true);
-    };
-    audio.play().catch(() => setIsAutomationRunning(false));
+    playback.enqueue(toAudioSource(payload), { id: logId });
   };
 
+  workflowRef.current = handleAutomationWorkflow;
+
   const handleUpdateRecording = (updated: Recording) => {
-    setRecordings(prev => prev.map(r => r.id === updated.id ? updated : r));
+    setRecordings(prev => prev.map(r => {
+      if (r.id !== updated.id) return r;
+      if (r.url !== updated.url) URL.revokeObjectURL(r.url);
+      return updated;
+    }));
   };
 
+  const handleSplitRecording = (first: Recording, second: Recording) => {
+    setRecordings(prev => prev.flatMap(r => {
+      if (r.id !== first.id) return [r];
+      URL.revokeObjectURL(r.url);
+      return [second, first];
+    }));
+  };
+
+  const renderCard = (recording: Recording) => (
+    <RecordingCard
+      key={recording.id}
+      recording={recording}
+      delivery={deliveries[recording.id]}
+      canResend={!!automation.webhookUrl && tabs.isLeader}
+      onDelete={deleteRecording}
+      onUpdate={handleUpdateRecording}
+      onResend={resend}
+      canTranscribe={processingSettings.transcriptionProvider !== 'none'}
+      onTranscribe={transcribe}
+      onSplit={handleSplitRecording}
+    />
+  );
+
+  // Session segments collapse into one entry, placed where the session's
+  // newest segment would have been.
+  const sessionsById = new Map<string, Session>(sessions.map(s => [s.id, s]));
+  const archiveEntries: { session?: Session; segments: Recording[] }[] = [];
+  const placed = new Set<string>();
+  recordings.forEach(recording => {
+    const session = recording.sessionId ? sessionsById.get(recording.sessionId) : undefined;
+    if (!session) {
+      archiveEntries.push({ segments: [recording] });
+    } else if (!placed.has(session.id)) {
+      placed.add(session.id);
+      archiveEntries.push({ session, segments: sessionSegments(session, recordings) });
+    }
+  });
+
   const formatDuration = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = Math.floor(seconds % 60);
@@ -200,6 +712,24 @@ const App: React.FC = () => {
 
             <div className="space-y-10">
               <div className="space-y-4">
+                <label className="text-[12px] font-black uppercase tracking-widest text-amber-400 italic block px-2">Profiles</label>
+                <ProfileSettings
+                  profiles={profiles}
+                  activeName={activeProfile}
+                  onSave={(name) => {
+                    storeProfile(createProfile(name, settings, automation));
+                    setActiveProfile(name.trim());
+                  }}
+                  onApply={(name) => activateProfile(findProfile(name))}
+                  onDelete={(name) => {
+                    setProfiles(prev => prev.filter(p => p.name !== name));
+                    if (activeProfile === name) setActiveProfile(null);
+                  }}
+                  onImport={(json) => storeProfile(parseProfile(json, profileDefaults))}
+                />
+              </div>
+
+              <div className="space-y-4 pt-8 border-t border-white/5">
                 <label className="text-[12px] font-black uppercase tracking-widest text-blue-400 italic block px-2">Signal Feed</label>
                 <div className="bg-black/60 rounded-[2.5rem] border border-white/5 p-6 min-h-[160px] max-h-[240px] overflow-y-auto space-y-3">
                   {triggerLogs.length === 0 ? (
@@ -211,7 +741,14 @@ const App: React.FC = () => {
                           <span className="text-[11px] text-white/50 font-mono truncate max-w-[180px]">{log.url}</span>
                           <span className="text-[9px] text-white/20 font-black">{new Date(log.timestamp).toLocaleTimeString()}</span>
                         </div>
-                        <span className={`text-[10px] font-black uppercase px-3 py-1 rounded-full ${log.status === 'done' ? 'text-green-500' : 'text-blue-500'}`}>{log.status}</span>
+                        <div className="flex items-center gap-2 shrink-0">
+                          <span title={log.errorDetails} className={`text-[10px] font-black uppercase px-3 py-1 rounded-full ${LOG_STATUS_STYLES[log.status]}`}>{log.status}</span>
+                          {(log.status === 'queued' || log.status === 'playing') && (
+                            <button onClick={() => playback.cancel(log.id)} className="text-[10px] font-black uppercase tracking-widest text-white/30 hover:text-white transition-colors">
+                              {log.status === 'playing' ? 'Skip' : 'Cancel'}
+                            </button>
+                          )}
+                        </div>
                       </div>
                     ))
                   )}
@@ -219,11 +756,17 @@ const App: React.FC = () => {
               </div>
 
               <div className="space-y-4">
-                <label className="text-[12px] font-black uppercase tracking-widest text-blue-400 italic block px-2">ntfy Address</label>
+                <label className="text-[12px] font-black uppercase tracking-widest text-blue-400 italic block px-2">Trigger Address</label>
                 <div className="bg-black/80 p-6 rounded-[2rem] border border-white/5 font-mono text-[12px] text-blue-400/70 break-all select-all shadow-inner">
-                  https://ntfy.sh/{automation.remoteTriggerId}
+                  {triggerEndpoint(automation) || 'Not configured'}
                 </div>
-                <button onClick={() => copyToClipboard(`https://ntfy.sh/${automation.remoteTriggerId}`)} className="w-full py-5 bg-white/5 hover:bg-white/10 rounded-2xl text-[11px] font-black uppercase tracking-[0.2em] transition-all text-white/30 border border-white/5">Copy Endpoint</button>
+                <TriggerSettings
+                  automation={automation}
+                  onChange={setAutomation}
+                  connectionState={triggerState}
+                  connectionDetail={triggerDetail}
+                />
+                <button onClick={() => copyToClipboard(triggerEndpoint(automation))} className="w-full py-5 bg-white/5 hover:bg-white/10 rounded-2xl text-[11px] font-black uppercase tracking-[0.2em] transition-all text-white/30 border border-white/5">Copy Endpoint</button>
               </div>
 
               <div className="space-y-4 pt-8 border-t border-white/5">
@@ -238,12 +781,29 @@ const App: React.FC = () => {
                   className="w-full bg-white/5 border border-white/10 rounded-2xl px-6 py-5 text-sm focus:outline-none focus:border-emerald-500 transition-all font-mono text-[12px] text-white/70 shadow-inner"
                   placeholder="https://your-webhook.com"
                 />
+                <WebhookSettings automation={automation} onChange={setAutomation} />
+              </div>
+
+              <div className="space-y-4 pt-8 border-t border-white/5">
+                <label className="text-[12px] font-black uppercase tracking-widest text-violet-400 italic block px-2">Transcription</label>
+                <TranscriptionSettings processing={processingSettings} onChange={setProcessingSettings} />
               </div>
             </div>
           </div>
         </div>
       )}
 
+      {archiveLock.state === 'locked' && <LockScreen onUnlock={archiveLock.unlock} />}
+
+      {handover && !handover.attempted && tabs.isLeader && (
+        <button
+          onClick={resumeHandover}
+          className="fixed top-6 left-1/2 -translate-x-1/2 z-[250] px-8 py-4 rounded-full bg-red-500 text-white text-[11px] font-black uppercase tracking-[0.3em] shadow-[0_0_60px_rgba(239,68,68,0.4)] animate-pulse"
+        >
+          Capture Stopped With The Other Tab · Tap To Resume
+        </button>
+      )}
+
       {!hasStartedOnce ? (
         <div className="fixed inset-0 z-[200] flex items-center justify-center bg-[#0a0a0a]">
           <div className="text-center space-y-12 max-w-md p-8 animate-in fade-in zoom-in duration-500">
@@ -273,15 +833,16 @@ const App: React.FC = () => {
 
             <div className="bg-[#111111] border border-white/5 rounded-[4.5rem] p-12 shadow-[0_40px_100px_-20px_rgba(0,0,0,0.8)] flex flex-col items-center relative overflow-hidden">
                <div className="absolute top-10 right-14 flex items-center gap-3 bg-black/40 px-6 py-2 rounded-full border border-white/5">
-                  <span className={`w-2.5 h-2.5 rounded-full ${status === RecorderStatus.RECORDING ? 'bg-red-500 animate-pulse' : status === RecorderStatus.LISTENING ? 'bg-green-500' : 'bg-white/10'}`}></span>
+                  <span className={`w-2.5 h-2.5 rounded-full ${status === RecorderStatus.RECORDING ? 'bg-red-500 animate-pulse' : status === RecorderStatus.LISTENING ? 'bg-green-500' : status === RecorderStatus.PAUSED ? 'bg-amber-500' : 'bg-white/10'}`}></span>
                   <span className="text-[11px] font-black uppercase tracking-widest text-white/40 italic">{status}</span>
                </div>
 
                <div className="w-full max-w-[320px] aspect-square flex items-center justify-center relative my-4">
                   <Visualizer 
-                    volume={isAutomationRunning ? (Math.random() * 80 + 120) : currentVolume} 
-                    isActive={status !== RecorderStatus.IDLE || isAutomationRunning}
-                    sensitivity={settings.sensitivity}
+                    volume={playback.isPlaying ? (Math.random() * 80 + 120) : currentVolume} 
+                    isActive={status !== RecorderStatus.IDLE || playback.isPlaying}
+                    threshold={voiceThreshold}
+                    isCalibrating={isCalibrating}
                   />
                   {status === RecorderStatus.RECORDING && silenceProgress > 0 && (
                     <div className="absolute inset-0 pointer-events-none p-2">
@@ -312,8 +873,9 @@ const App: React.FC = () => {
 
                <button
                  onClick={() => toggleListen(true)}
-                 disabled={isAutomationRunning}
-                 className={`relative flex items-center justify-center w-32 h-32 rounded-full transition-all transform active:scale-90 z-10 ${
+                 disabled={playback.isPlaying || !tabs.isLeader}
+                 title={tabs.isLeader ? undefined : 'Another tab owns the microphone'}
+                 className={`relative flex items-center justify-center w-32 h-32 rounded-full transition-all transform active:scale-90 z-10 disabled:opacity-40 ${
                    status === RecorderStatus.IDLE 
                    ? 'bg-white text-black hover:scale-105' 
                    : 'bg-red-500 text-white shadow-[0_0_80px_rgba(239,68,68,0.4)]'
@@ -325,6 +887,64 @@ const App: React.FC = () => {
                    <svg xmlns="http://www.w3.org/2000/svg" width="52" height="52" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round"><rect x="4" y="4" width="16" height="16" rx="2" ry="2"/></svg>
                  )}
                </button>
+
+               {settings.captureMode === 'push-to-talk' && tabs.isLeader && (
+                 <button
+                   onPointerDown={(e) => {
+                     e.currentTarget.setPointerCapture(e.pointerId);
+                     pushToTalk(true);
+                   }}
+                   onPointerUp={() => pushToTalk(false)}
+                   onPointerCancel={() => pushToTalk(false)}
+                   onContextMenu={(e) => e.preventDefault()}
+                   className={`mt-8 px-10 py-4 rounded-full text-[11px] font-black uppercase tracking-[0.3em] border transition-all select-none touch-none ${status === RecorderStatus.RECORDING ? 'bg-red-500/20 border-red-500/40 text-red-300' : 'bg-white/5 border-white/10 text-white/50 hover:bg-white/10'}`}
+                 >
+                   Hold To Talk
+                 </button>
+               )}
+
+               {!tabs.isLeader && (
+                 <div className="mt-8 bg-black/40 px-6 py-3 rounded-full border border-white/5">
+                   <span className="text-[10px] font-black uppercase tracking-widest text-white/40 italic">Mirroring Another Tab</span>
+                 </div>
+               )}
+
+               {playback.isActive && (
+                 <div className="mt-8 flex items-center gap-4 bg-black/40 px-6 py-3 rounded-full border border-white/5">
+                   <span className="text-[10px] font-black uppercase tracking-widest text-white/40 italic">
+                     {playback.isPlaying ? 'Playing' : settings.halfDuplex ? 'Mic Settling' : 'Idle'}
+                     {playback.queue.length > 1 && ` · ${playback.queue.length - 1} queued`}
+                   </span>
+                   {playback.isPlaying && (
+                     <button onClick={playback.skip} className="text-[10px] font-black uppercase tracking-widest text-white/30 hover:text-white transition-colors">Skip</button>
+                   )}
+                   {playback.queue.length > 1 && (
+                     <button onClick={playback.clear} className="text-[10px] font-black uppercase tracking-widest text-white/30 hover:text-white transition-colors">Clear</button>
+                   )}
+                 </div>
+               )}
+            </div>
+
+            <div className="bg-[#111111] border border-white/5 rounded-[4rem] p-12 space-y-12 shadow-2xl">
+              <h2 className="text-2xl font-black uppercase tracking-tighter italic text-white/70 px-4">Capture</h2>
+              <CaptureSettings
+                mode={settings.captureMode}
+                timedDuration={settings.timedDuration}
+                isRunning={!isRecorderIdle}
+                onModeChange={(captureMode) => setSettings({...settings, captureMode})}
+                onTimedDurationChange={(timedDuration) => setSettings({...settings, timedDuration})}
+              />
+            </div>
+
+            <div className="bg-[#111111] border border-white/5 rounded-[4rem] p-12 space-y-12 shadow-2xl">
+              <h2 className="text-2xl font-black uppercase tracking-tighter italic text-white/70 px-4">Signal Chain</h2>
+              <SignalChainSettings
+                settings={settings}
+                onChange={(changes) => setSettings({...settings, ...changes})}
+                isRunning={!isRecorderIdle && tabs.isLeader}
+                monitorMode={monitorMode}
+                onMonitor={monitor}
+              />
             </div>
 
             <div className="bg-[#111111] border border-white/5 rounded-[4rem] p-12 space-y-12 shadow-2xl">
@@ -333,12 +953,14 @@ const App: React.FC = () => {
                 <div className="space-y-6">
                   <div className="flex justify-between text-[11px] font-black uppercase tracking-[0.3em] text-white/30 px-4">
                     <span>Input Gain Threshold</span>
-                    <span className="text-white/60">{settings.sensitivity}%</span>
+                    <span className="text-white/60">
+                      {isCalibrating ? 'Calibrating' : `${settings.sensitivity}%`}
+                    </span>
                   </div>
                   <div className="relative h-16 flex items-center">
                     <div className="absolute inset-0 bg-white/[0.03] rounded-[2rem] overflow-hidden border border-white/5">
                       <div className="h-full bg-blue-500/20 transition-all duration-75" style={{ width: `${(currentVolume / 255) * 100}%` }} />
-                      <div className="absolute top-0 h-full w-2.5 bg-red-500/50" style={{ left: `${settings.sensitivity}%` }} />
+                      <div className="absolute top-0 h-full w-2.5 bg-red-500/50 transition-all duration-300" style={{ left: `${(voiceThreshold / 255) * 100}%` }} />
                     </div>
                     <input 
                       type="range" min="0" max="100" value={settings.sensitivity}
@@ -348,6 +970,131 @@ const App: React.FC = () => {
                   </div>
                 </div>
 
+                <div className="flex items-center justify-between gap-4 px-4 -mt-6">
+                  <div className="flex gap-2">
+                    {(['energy-band', 'level'] as const).map(type => (
+                      <button
+                        key={type}
+                        onClick={() => setSettings({...settings, detector: type})}
+                        className={`px-4 py-2 rounded-full text-[10px] font-black uppercase tracking-widest border transition-all ${settings.detector === type ? 'bg-blue-500/20 border-blue-500/40 text-blue-300' : 'bg-white/5 border-white/5 text-white/30 hover:text-white/60'}`}
+                      >
+                        {type === 'energy-band' ? 'Speech Band' : 'Raw Level'}
+                      </button>
+                    ))}
+                  </div>
+                  {settings.detector === 'energy-band' && status !== RecorderStatus.IDLE && (
+                    <button onClick={recalibrate} className="text-[10px] font-black uppercase tracking-widest text-white/30 hover:text-white transition-colors">Recalibrate</button>
+                  )}
+                </div>
+
+                {settings.detector === 'energy-band' && (
+                  <div className="grid grid-cols-2 gap-6">
+                    <div className="space-y-4">
+                      <div className="flex justify-between text-[11px] font-black uppercase tracking-[0.3em] text-white/30 px-4">
+                        <span>Min Speech</span>
+                        <span className="text-white/60">{settings.minSpeechDuration}ms</span>
+                      </div>
+                      <input 
+                        type="range" min="0" max="500" step="20" value={settings.minSpeechDuration}
+                        onChange={(e) => setSettings({...settings, minSpeechDuration: parseInt(e.target.value)})}
+                        className="w-full accent-blue-500 cursor-pointer"
+                      />
+                    </div>
+                    <div className="space-y-4">
+                      <div className="flex justify-between text-[11px] font-black uppercase tracking-[0.3em] text-white/30 px-4">
+                        <span>Hysteresis</span>
+                        <span className="text-white/60">{settings.hysteresis}dB</span>
+                      </div>
+                      <input 
+                        type="range" min="0" max="20" step="1" value={settings.hysteresis}
+                        onChange={(e) => setSettings({...settings, hysteresis: parseInt(e.target.value)})}
+                        className="w-full accent-blue-500 cursor-pointer"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-6">
+                  <div className="space-y-4">
+                    <div className="flex justify-between text-[11px] font-black uppercase tracking-[0.3em] text-white/30 px-4">
+                      <span>Pre-Roll</span>
+                      <span className="text-white/60">{settings.preRoll}ms</span>
+                    </div>
+                    <input 
+                      type="range" min="0" max="2000" step="100" value={settings.preRoll}
+                      onChange={(e) => setSettings({...settings, preRoll: parseInt(e.target.value)})}
+                      className="w-full accent-blue-500 cursor-pointer"
+                    />
+                  </div>
+                  <div className="space-y-4">
+                    <div className="flex justify-between text-[11px] font-black uppercase tracking-[0.3em] text-white/30 px-4">
+                      <span>Post-Roll</span>
+                      <span className="text-white/60">{settings.postRoll}ms</span>
+                    </div>
+                    <input 
+                      type="range" min="0" max="2000" step="100" value={settings.postRoll}
+                      onChange={(e) => setSettings({...settings, postRoll: parseInt(e.target.value)})}
+                      className="w-full accent-blue-500 cursor-pointer"
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-4">
+                  <div className="flex justify-between text-[11px] font-black uppercase tracking-[0.3em] text-white/30 px-4">
+                    <span>Max Segment Length</span>
+                    <span className="text-white/60">{settings.maxSegmentDuration > 0 ? `${settings.maxSegmentDuration / 60}min` : 'Unlimited'}</span>
+                  </div>
+                  <input 
+                    type="range" min="0" max="3600" step="60" value={settings.maxSegmentDuration}
+                    onChange={(e) => setSettings({...settings, maxSegmentDuration: parseInt(e.target.value)})}
+                    className="w-full accent-blue-500 cursor-pointer"
+                  />
+                </div>
+
+                <div className="space-y-4">
+                  <div className="flex justify-between items-center text-[11px] font-black uppercase tracking-[0.3em] text-white/30 px-4">
+                    <span>Half-Duplex Playback</span>
+                    <button
+                      onClick={() => setSettings({...settings, halfDuplex: !settings.halfDuplex})}
+                      className={`px-4 py-2 rounded-full text-[10px] font-black uppercase tracking-widest border transition-all ${settings.halfDuplex ? 'bg-blue-500/20 border-blue-500/40 text-blue-300' : 'bg-white/5 border-white/5 text-white/30 hover:text-white/60'}`}
+                    >
+                      {settings.halfDuplex ? 'On' : 'Off'}
+                    </button>
+                  </div>
+                  {settings.halfDuplex && (
+                    <>
+                      <div className="flex justify-between text-[11px] font-black uppercase tracking-[0.3em] text-white/30 px-4">
+                        <span>Playback Tail</span>
+                        <span className="text-white/60">{settings.playbackTail}ms</span>
+                      </div>
+                      <input 
+                        type="range" min="0" max="3000" step="100" value={settings.playbackTail}
+                        onChange={(e) => setSettings({...settings, playbackTail: parseInt(e.target.value)})}
+                        className="w-full accent-blue-500 cursor-pointer"
+                      />
+                    </>
+                  )}
+                </div>
+
+                <div className="space-y-4">
+                  <div className="flex justify-between text-[11px] font-black uppercase tracking-[0.3em] text-white/30 px-4">
+                    <span>Output Format</span>
+                    {status !== RecorderStatus.IDLE && <span className="text-white/20">Applies on restart</span>}
+                  </div>
+                  <div className="flex flex-wrap gap-2 px-2">
+                    {(Object.keys(FORMAT_LABELS) as OutputFormat[]).map(format => (
+                      <button
+                        key={format}
+                        disabled={!isFormatSupported(format)}
+                        onClick={() => setSettings({...settings, outputFormat: format})}
+                        className={`px-4 py-2 rounded-full text-[10px] font-black uppercase tracking-widest border transition-all disabled:opacity-20 disabled:cursor-not-allowed ${settings.outputFormat === format ? 'bg-blue-500/20 border-blue-500/40 text-blue-300' : 'bg-white/5 border-white/5 text-white/30 hover:text-white/60'}`}
+                      >
+                        {FORMAT_LABELS[format]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
                 {lastLog && (
                   <div className="bg-white/[0.02] border border-white/5 rounded-3xl p-5 flex items-center gap-5">
                     <div className="w-3 h-3 rounded-full bg-blue-500 animate-pulse" />
@@ -356,6 +1103,54 @@ const App: React.FC = () => {
                 )}
               </div>
             </div>
+
+            <div className="bg-[#111111] border border-white/5 rounded-[4rem] p-12 space-y-12 shadow-2xl">
+              <h2 className="text-2xl font-black uppercase tracking-tighter italic text-white/70 px-4">Input Source</h2>
+              <InputSettings
+                settings={settings}
+                onChange={setSettings}
+                isActive={status !== RecorderStatus.IDLE && status !== RecorderStatus.ERROR}
+              />
+            </div>
+
+            <div className="bg-[#111111] border border-white/5 rounded-[4rem] p-12 space-y-12 shadow-2xl">
+              <h2 className="text-2xl font-black uppercase tracking-tighter italic text-white/70 px-4">Schedule</h2>
+              <div className="flex justify-between items-center text-[11px] font-black uppercase tracking-[0.3em] text-white/30 px-4">
+                <span>Listen On Launch</span>
+                <button
+                  onClick={() => setSettings({ ...settings, autoStart: !settings.autoStart })}
+                  className={`px-4 py-2 rounded-full text-[10px] font-black uppercase tracking-widest border transition-all ${settings.autoStart ? 'bg-blue-500/20 border-blue-500/40 text-blue-300' : 'bg-white/5 border-white/5 text-white/30 hover:text-white/60'}`}
+                >
+                  {settings.autoStart ? 'On' : 'Off'}
+                </button>
+              </div>
+              <ScheduleSettings schedule={schedule} onChange={setSchedule} next={scheduler.next} />
+            </div>
+
+            <div className="bg-[#111111] border border-white/5 rounded-[4rem] p-12 space-y-12 shadow-2xl">
+              <h2 className="text-2xl font-black uppercase tracking-tighter italic text-white/70 px-4">Retention</h2>
+              <RetentionSettings
+                settings={retention}
+                onChange={setRetention}
+                storage={retentionState.storage}
+                archiveBytes={recordings.reduce((sum, r) => sum + recordingBytes(r), 0)}
+                onRequestPersistence={retentionState.requestPersistence}
+              />
+            </div>
+
+            <div className="bg-[#111111] border border-white/5 rounded-[4rem] p-12 space-y-12 shadow-2xl">
+              <h2 className="text-2xl font-black uppercase tracking-tighter italic text-white/70 px-4">Encryption</h2>
+              <EncryptionSettings
+                state={archiveLock.state}
+                autoLockMinutes={archiveLock.autoLockMinutes}
+                canLock={canLock}
+                onEnable={archiveLock.enable}
+                onDisable={archiveLock.disable}
+                onChangePassphrase={archiveLock.changePassphrase}
+                onAutoLockChange={archiveLock.setAutoLockMinutes}
+                onLock={archiveLock.lock}
+              />
+            </div>
           </div>
 
           <div className="lg:col-span-7 space-y-10 pb-40">
@@ -364,18 +1159,64 @@ const App: React.FC = () => {
                 Archive Vault
                 <span className="bg-white/5 text-white/30 text-[12px] px-6 py-2 rounded-full font-black uppercase tracking-widest border border-white/5">{recordings.length}</span>
               </h2>
+              <button
+                onClick={() => importInputRef.current?.click()}
+                className="px-6 py-3 bg-white/5 hover:bg-white/10 rounded-full text-[10px] font-black uppercase tracking-widest text-white/40 hover:text-white border border-white/5 transition-colors"
+              >
+                Import Audio
+              </button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept="audio/*,video/*"
+                multiple
+                className="hidden"
+                onChange={(e) => {
+                  if (e.target.files) fileImport.importFiles(e.target.files);
+                  e.target.value = '';
+                }}
+              />
             </div>
+
+            {retentionState.isNearQuota && retentionState.storage && (
+              <div className="bg-red-500/10 border border-red-500/20 rounded-3xl p-5 flex items-center gap-5">
+                <div className="w-3 h-3 rounded-full bg-red-500 animate-pulse shrink-0" />
+                <span className="text-[12px] font-black uppercase tracking-widest text-red-300/80 italic">
+                  Storage {Math.round(retentionState.storage.usage / retentionState.storage.quota * 100)}% full: lower the retention limits or delete recordings
+                </span>
+              </div>
+            )}
+
+            <ImportJobs jobs={fileImport.jobs} onCancel={fileImport.cancel} onClear={fileImport.clearFinished} />
             
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-8 px-2">
+            <div
+              onDragOver={(e) => {
+                if (!e.dataTransfer.types.includes('Files')) return;
+                e.preventDefault();
+                setIsDraggingFile(true);
+              }}
+              onDragLeave={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingFile(false);
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                setIsDraggingFile(false);
+                fileImport.importFiles(e.dataTransfer.files);
+              }}
+              className={`grid grid-cols-1 md:grid-cols-2 gap-8 px-2 rounded-[3rem] transition-all ${isDraggingFile ? 'ring-4 ring-blue-500/40 bg-blue-500/5' : ''}`}
+            >
               {recordings.length === 0 ? (
                 <div className="col-span-full py-60 flex flex-col items-center justify-center text-white/5 border-4 border-dashed border-white/5 rounded-[5rem] transition-all hover:border-white/10 group">
                   <svg className="mb-6 opacity-20 group-hover:scale-110 transition-transform" xmlns="http://www.w3.org/2000/swap" width="64" height="64" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1" strokeLinecap="round" strokeLinejoin="round"><path d="M12 2a3 3 0 0 0-3 3v7a3 3 0 0 0 6 0V5a3 3 0 0 0-3-3Z"/><path d="M19 10v2a7 7 0 0 1-14 0v-2"/></svg>
                   <p className="text-lg font-black uppercase tracking-[0.5em] opacity-10 italic text-center">Awaiting Signal Streams</p>
+                  <p className="text-[10px] font-black uppercase tracking-[0.4em] opacity-10 mt-4">or drop audio files here</p>
                 </div>
               ) : (
-                recordings.map(recording => (
-                  <RecordingCard key={recording.id} recording={recording} onDelete={deleteRecording} onUpdate={handleUpdateRecording} />
-                ))
+                archiveEntries.map(entry => entry.session ? (
+                  <SessionGroup key={entry.session.id} session={entry.session} segments={entry.segments}>
+                    {[...entry.segments].reverse().map(renderCard)}
+                  </SessionGroup>
+                ) : renderCard(entry.segments[0]))
               )}
             </div>
           </div>
@@ -0,0 +1,79 @@
+import React from 'react';
+import { CaptureMode } from '../types';
+import { CAPTURE_SHORTCUTS } from '../hooks/useCaptureShortcuts';
+
+interface CaptureSettingsProps {
+  mode: CaptureMode;
+  timedDuration: number;
+  /** A new mode applies from the next start. */
+  isRunning: boolean;
+  onModeChange: (mode: CaptureMode) => void;
+  onTimedDurationChange: (seconds: number) => void;
+}
+
+const MODE_LABELS: Record<CaptureMode, string> = {
+  'vad': 'Voice',
+  'push-to-talk': 'Push To Talk',
+  'manual': 'Manual',
+  'timed': 'Timed'
+};
+
+const MODE_HINTS: Record<CaptureMode, string> = {
+  'vad': 'Segments open on speech and close after silence.',
+  'push-to-talk': 'Records while the button or Space is held; detection is ignored.',
+  'manual': 'Records from start until stop; detection is ignored.',
+  'timed': 'Each start records a fixed length, then stops.'
+};
+
+const labelClass = "text-[11px] font-black uppercase tracking-[0.3em] text-white/30 px-4";
+
+export const CaptureSettings: React.FC<CaptureSettingsProps> = ({
+  mode, timedDuration, isRunning, onModeChange, onTimedDurationChange
+}) => (
+  <div className="space-y-8">
+    <div className="space-y-4">
+      <div className="flex justify-between">
+        <span className={labelClass}>Capture Mode</span>
+        {isRunning && <span className="text-[11px] font-black uppercase tracking-[0.3em] text-white/20 px-4">Applies on restart</span>}
+      </div>
+      <div className="flex flex-wrap gap-2 px-2">
+        {(Object.keys(MODE_LABELS) as CaptureMode[]).map(option => (
+          <button
+            key={option}
+            onClick={() => onModeChange(option)}
+            className={`px-4 py-2 rounded-full text-[10px] font-black uppercase tracking-widest border transition-all ${mode === option ? 'bg-blue-500/20 border-blue-500/40 text-blue-300' : 'bg-white/5 border-white/5 text-white/30 hover:text-white/60'}`}
+          >
+            {MODE_LABELS[option]}
+          </button>
+        ))}
+      </div>
+      <p className="text-[10px] text-white/20 px-4">{MODE_HINTS[mode]}</p>
+    </div>
+
+    {mode === 'timed' && (
+      <div className="space-y-4">
+        <div className="flex justify-between text-[11px] font-black uppercase tracking-[0.3em] text-white/30 px-4">
+          <span>Take Length</span>
+          <span className="text-white/60">{timedDuration}s</span>
+        </div>
+        <input
+          type="range" min="5" max="600" step="5" value={timedDuration}
+          onChange={(e) => onTimedDurationChange(parseInt(e.target.value))}
+          className="w-full accent-blue-500 cursor-pointer"
+        />
+      </div>
+    )}
+
+    <div className="space-y-3">
+      <span className={labelClass}>Shortcuts · In The Tab Capturing</span>
+      <div className="grid grid-cols-2 gap-2 px-4">
+        {CAPTURE_SHORTCUTS.map(shortcut => (
+          <div key={shortcut.code} className="flex items-center gap-3 text-[10px] text-white/30">
+            <kbd className="min-w-[3rem] text-center px-2 py-1 rounded-lg bg-white/5 border border-white/10 font-mono text-white/60">{shortcut.label}</kbd>
+            <span className="font-black uppercase tracking-widest">{shortcut.action}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  </div>
+);
@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { ArchiveLockState } from '../hooks/useArchiveLock';
+
+interface EncryptionSettingsProps {
+  state: ArchiveLockState;
+  autoLockMinutes: number;
+  /** Locking waits until nothing is being captured or imported. */
+  canLock: boolean;
+  onEnable: (passphrase: string) => Promise<void>;
+  onDisable: (passphrase: string) => Promise<void>;
+  onChangePassphrase: (current: string, next: string) => Promise<void>;
+  onAutoLockChange: (minutes: number) => void;
+  onLock: () => void;
+}
+
+type Action = 'enable' | 'change' | 'disable';
+
+const inputClass = "w-full bg-white/5 border border-white/10 rounded-2xl px-5 py-4 focus:outline-none focus:border-blue-500 transition-all font-mono text-[12px] text-white/70 shadow-inner";
+const labelClass = "text-[11px] font-black uppercase tracking-[0.3em] text-white/30 px-4";
+const actionClass = "text-[10px] font-black uppercase tracking-widest text-white/30 hover:text-white transition-colors";
+
+export const EncryptionSettings: React.FC<EncryptionSettingsProps> = ({
+  state, autoLockMinutes, canLock, onEnable, onDisable, onChangePassphrase, onAutoLockChange, onLock
+}) => {
+  const [action, setAction] = useState<Action | null>(null);
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const open = (chosen: Action | null) => {
+    setAction(chosen);
+    setCurrent('');
+    setNext('');
+    setConfirm('');
+    setError(null);
+  };
+
+  const needsCurrent = action === 'change' || action === 'disable';
+  const needsNext = action === 'enable' || action === 'change';
+  const isValid = (!needsCurrent || current !== '') && (!needsNext || (next !== '' && next === confirm));
+
+  const submit = async () => {
+    if (!action || !isValid || isWorking) return;
+    setIsWorking(true);
+    setError(null);
+    try {
+      if (action === 'enable') await onEnable(next);
+      else if (action === 'change') await onChangePassphrase(current, next);
+      else await onDisable(current);
+      open(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex justify-between items-center">
+        <span className={labelClass}>Encrypted Archive</span>
+        <span className={`text-[10px] font-black uppercase tracking-widest px-4 ${state === 'unlocked' ? 'text-green-400/70' : 'text-white/30'}`}>
+          {state === 'unlocked' ? 'On' : 'Off'}
+        </span>
+      </div>
+
+      {state === 'unlocked' && (
+        <>
+          <div className="space-y-4">
+            <div className="flex justify-between text-[11px] font-black uppercase tracking-[0.3em] text-white/30 px-4">
+              <span>Auto-Lock</span>
+              <span className="text-white/60">{autoLockMinutes > 0 ? `${autoLockMinutes}min` : 'Never'}</span>
+            </div>
+            <input
+              type="range" min="0" max="120" step="5" value={autoLockMinutes}
+              onChange={(e) => onAutoLockChange(parseInt(e.target.value))}
+              className="w-full accent-blue-500 cursor-pointer"
+            />
+          </div>
+          <button
+            onClick={onLock}
+            disabled={!canLock}
+            className="w-full py-4 bg-white/5 hover:bg-white/10 rounded-2xl text-[10px] font-black uppercase tracking-[0.2em] transition-all text-white/50 border border-white/5 disabled:opacity-30"
+            title={canLock ? undefined : 'Stop listening and imports to lock'}
+          >
+            Lock Now
+          </button>
+        </>
+      )}
+
+      {action === null ? (
+        <div className="flex gap-6 px-4">
+          {state === 'plain' && <button onClick={() => open('enable')} className={actionClass}>Encrypt Archive</button>}
+          {state === 'unlocked' && <button onClick={() => open('change')} className={actionClass}>Change Passphrase</button>}
+          {state === 'unlocked' && (
+            <button onClick={() => open('disable')} className="text-[10px] font-black uppercase tracking-widest text-red-400/40 hover:text-red-400 transition-colors">
+              Decrypt Archive
+            </button>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {needsCurrent && (
+            <input type="password" value={current} onChange={(e) => setCurrent(e.target.value)} className={inputClass} placeholder="Current passphrase" />
+          )}
+          {needsNext && (
+            <>
+              <input type="password" value={next} onChange={(e) => setNext(e.target.value)} className={inputClass} placeholder="New passphrase" />
+              <input
+                type="password"
+                value={confirm}
+                onChange={(e) => setConfirm(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') submit(); }}
+                className={inputClass}
+                placeholder="Repeat new passphrase"
+              />
+              {confirm !== '' && next !== confirm && <p className="text-[10px] text-red-400/60 font-mono px-4">Passphrases do not match</p>}
+            </>
+          )}
+          <div className="flex items-center justify-between px-4 pt-2">
+            <button onClick={() => open(null)} disabled={isWorking} className={actionClass}>Cancel</button>
+            <button
+              onClick={submit}
+              disabled={!isValid || isWorking}
+              className="px-6 py-3 bg-blue-500/20 hover:bg-blue-500/30 border border-blue-500/40 rounded-2xl text-[10px] font-black uppercase tracking-widest text-blue-300 transition-colors disabled:opacity-30"
+            >
+              {isWorking ? 'Rewriting Archive...' : action === 'enable' ? 'Encrypt' : action === 'change' ? 'Change' : 'Decrypt'}
+            </button>
+          </div>
+          {error && <p className="text-[10px] text-red-400/60 font-mono px-4 break-words">{error}</p>}
+        </div>
+      )}
+
+      <p className="text-[10px] text-white/20 px-4">
+        Audio and transcripts are sealed with AES-GCM under a key derived from the passphrase. There is no recovery: a forgotten passphrase loses the archive.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+import React from 'react';
+import { ImportJob, ImportJobState, isJobRunning } from '../hooks/useFileImport';
+
+interface ImportJobsProps {
+  jobs: ImportJob[];
+  onCancel: (id: string) => void;
+  onClear: () => void;
+}
+
+const STATE_LABELS: Record<ImportJobState, string> = {
+  queued: 'Queued',
+  decoding: 'Decoding',
+  detecting: 'Detecting',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+export const ImportJobs: React.FC<ImportJobsProps> = ({ jobs, onCancel, onClear }) => {
+  if (jobs.length === 0) return null;
+
+  return (
+    <div className="mx-2 bg-[#141414] border border-white/5 rounded-[2.5rem] p-6 space-y-4">
+      <div className="flex justify-between items-center">
+        <span className="text-[10px] font-black uppercase tracking-widest text-white/30">File Imports</span>
+        {jobs.some(j => !isJobRunning(j)) && (
+          <button onClick={onClear} className="text-[10px] font-black uppercase tracking-widest text-white/30 hover:text-white transition-colors">
+            Clear Finished
+          </button>
+        )}
+      </div>
+      {jobs.map(job => (
+        <div key={job.id} className="space-y-2">
+          <div className="flex justify-between items-center gap-4 text-[11px]">
+            <span className="font-mono text-white/60 truncate">{job.fileName}</span>
+            <div className="flex items-center gap-4 shrink-0">
+              <span className={`text-[10px] font-black uppercase tracking-widest ${job.state === 'failed' ? 'text-red-400' : job.state === 'done' ? 'text-green-500' : 'text-white/30'}`}>
+                {job.state === 'done' ? `${job.segments} Segments` : STATE_LABELS[job.state]}
+              </span>
+              {isJobRunning(job) && (
+                <button onClick={() => onCancel(job.id)} className="text-[10px] font-black uppercase tracking-widest text-white/30 hover:text-white transition-colors">
+                  Cancel
+                </button>
+              )}
+            </div>
+          </div>
+          {(job.state === 'decoding' || job.state === 'detecting') && (
+            <div className="h-1 bg-white/5 rounded-full overflow-hidden">
+              <div className="h-full bg-blue-500 transition-all" style={{ width: `${job.progress * 100}%` }} />
+            </div>
+          )}
+          {job.error && <p className="text-[10px] text-red-400/60 font-mono truncate">{job.error}</p>}
+        </div>
+      ))}
+    </div>
+  );
+};
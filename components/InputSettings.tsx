@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from 'react';
+import { AudioSettings } from '../types';
+import { InputDevice, listInputDevices } from '../services/audioDevices';
+
+interface InputSettingsProps {
+  settings: AudioSettings;
+  onChange: (settings: AudioSettings) => void;
+  isActive: boolean;
+}
+
+const SAMPLE_RATES = [0, 16000, 44100, 48000];
+
+const chipClass = (active: boolean) =>
+  `px-4 py-2 rounded-full text-[10px] font-black uppercase tracking-widest border transition-all ${active ? 'bg-blue-500/20 border-blue-500/40 text-blue-300' : 'bg-white/5 border-white/5 text-white/30 hover:text-white/60'}`;
+
+const PROCESSING_TOGGLES: { key: 'echoCancellation' | 'noiseSuppression' | 'autoGainControl'; label: string }[] = [
+  { key: 'echoCancellation', label: 'Echo Cancel' },
+  { key: 'noiseSuppression', label: 'Noise Suppress' },
+  { key: 'autoGainControl', label: 'Auto Gain' }
+];
+
+export const InputSettings: React.FC<InputSettingsProps> = ({ settings, onChange, isActive }) => {
+  const [devices, setDevices] = useState<InputDevice[]>([]);
+  const set = (patch: Partial<AudioSettings>) => onChange({ ...settings, ...patch });
+
+  // Labels only appear once permission is granted, so list again when
+  // capture starts as well as on hardware changes.
+  useEffect(() => {
+    const refresh = () => { listInputDevices().then(setDevices).catch(() => {}); };
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  }, [isActive]);
+
+  const selectedMissing = !!settings.deviceId && !devices.some(d => d.deviceId === settings.deviceId);
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-4">
+        <div className="flex justify-between text-[11px] font-black uppercase tracking-[0.3em] text-white/30 px-4">
+          <span>Input Device</span>
+          {selectedMissing && <span className="text-amber-400/70">Unplugged · using default</span>}
+        </div>
+        <select
+          value={settings.deviceId}
+          onChange={(e) => set({ deviceId: e.target.value })}
+          className="w-full bg-white/5 border border-white/10 rounded-2xl px-5 py-4 focus:outline-none focus:border-blue-500 transition-all text-[12px] text-white/70"
+        >
+          <option value="">System Default</option>
+          {devices.filter(d => d.deviceId && d.deviceId !== 'default').map(d => (
+            <option key={d.deviceId} value={d.deviceId}>{d.label}</option>
+          ))}
+          {selectedMissing && <option value={settings.deviceId}>Saved device (not connected)</option>}
+        </select>
+      </div>
+
+      <div className="space-y-4">
+        <div className="text-[11px] font-black uppercase tracking-[0.3em] text-white/30 px-4">Browser Processing</div>
+        <div className="flex flex-wrap gap-2 px-2">
+          {PROCESSING_TOGGLES.map(({ key, label }) => (
+            <button key={key} onClick={() => set({ [key]: !settings[key] })} className={chipClass(settings[key])}>
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <div className="text-[11px] font-black uppercase tracking-[0.3em] text-white/30 px-4">Channels</div>
+          <div className="flex gap-2 px-2">
+            {[1, 2].map(count => (
+              <button key={count} onClick={() => set({ channelCount: count })} className={chipClass(settings.channelCount === count)}>
+                {count === 1 ? 'Mono' : 'Stereo'}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="space-y-4">
+          <div className="text-[11px] font-black uppercase tracking-[0.3em] text-white/30 px-4">Sample Rate</div>
+          <select
+            value={settings.sampleRate}
+            onChange={(e) => set({ sampleRate: parseInt(e.target.value) })}
+            className="w-full bg-white/5 border border-white/10 rounded-2xl px-4 py-2 focus:outline-none focus:border-blue-500 transition-all text-[11px] text-white/70"
+          >
+            {SAMPLE_RATES.map(rate => (
+              <option key={rate} value={rate}>{rate === 0 ? 'Auto' : `${rate / 1000} kHz`}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+    </div>
+  );
+};
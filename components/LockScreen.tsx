@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+
+interface LockScreenProps {
+  /** Rejects with the reason when the passphrase is wrong. */
+  onUnlock: (passphrase: string) => Promise<void>;
+}
+
+export const LockScreen: React.FC<LockScreenProps> = ({ onUnlock }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const submit = async () => {
+    if (!passphrase || isUnlocking) return;
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await onUnlock(passphrase);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      setPassphrase('');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[300] flex items-center justify-center bg-[#0a0a0a]">
+      <div className="text-center space-y-12 max-w-md w-full p-8 animate-in fade-in zoom-in duration-500">
+        <h1 className="text-7xl font-black uppercase italic tracking-tighter leading-none">Archive<br/>Locked</h1>
+        <p className="text-white/20 text-sm font-black uppercase tracking-[0.4em]">Passphrase Required</p>
+        <div className="space-y-4">
+          <input
+            type="password"
+            autoFocus
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') submit(); }}
+            className="w-full bg-white/5 border border-white/10 rounded-2xl px-5 py-4 focus:outline-none focus:border-blue-500 transition-all font-mono text-[14px] text-white/70 text-center shadow-inner"
+            placeholder="Passphrase"
+          />
+          <button
+            onClick={submit}
+            disabled={!passphrase || isUnlocking}
+            className="w-full py-4 bg-white text-black rounded-2xl text-[12px] font-black uppercase tracking-[0.3em] hover:scale-[1.02] active:scale-95 transition-all disabled:opacity-30"
+          >
+            {isUnlocking ? 'Unlocking...' : 'Unlock'}
+          </button>
+          {error && <p className="text-[11px] text-red-400/80 font-mono">{error}</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import React, { useRef, useState } from 'react';
+import { SettingsProfile, serializeProfile } from '../services/settingsProfiles';
+
+interface ProfileSettingsProps {
+  profiles: SettingsProfile[];
+  activeName: string | null;
+  onSave: (name: string) => void;
+  onApply: (name: string) => void;
+  onDelete: (name: string) => void;
+  /** Validates and stores a profile file; throws with the reason if it is rejected. */
+  onImport: (json: string) => void;
+}
+
+const inputClass = "w-full bg-white/5 border border-white/10 rounded-2xl px-5 py-4 focus:outline-none focus:border-amber-500 transition-all font-mono text-[12px] text-white/70 shadow-inner";
+const actionClass = "text-[10px] font-black uppercase tracking-widest text-white/30 hover:text-white transition-colors";
+
+export const ProfileSettings: React.FC<ProfileSettingsProps> = ({ profiles, activeName, onSave, onApply, onDelete, onImport }) => {
+  const [name, setName] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const save = () => {
+    if (!name.trim()) return;
+    onSave(name);
+    setName('');
+  };
+
+  const download = (profile: SettingsProfile) => {
+    const url = URL.createObjectURL(new Blob([serializeProfile(profile)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `voiceflow-profile-${profile.name.replace(/[^\w-]+/g, '-').toLowerCase()}.json`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const importFile = async (file: File) => {
+    setImportError(null);
+    try {
+      onImport(await file.text());
+    } catch (e) {
+      setImportError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {profiles.length === 0 ? (
+        <p className="text-[11px] text-white/10 uppercase font-black text-center py-4 italic">No saved profiles</p>
+      ) : (
+        profiles.map(profile => (
+          <div key={profile.name} className="flex items-center justify-between gap-4 p-4 bg-white/[0.02] rounded-2xl border border-white/5">
+            <span className={`text-[12px] font-bold truncate ${profile.name === activeName ? 'text-amber-300' : 'text-white/60'}`}>
+              {profile.name}
+            </span>
+            <div className="flex items-center gap-4 shrink-0">
+              <button onClick={() => onApply(profile.name)} className={actionClass}>Apply</button>
+              <button onClick={() => download(profile)} className={actionClass}>Export</button>
+              <button onClick={() => onDelete(profile.name)} className="text-[10px] font-black uppercase tracking-widest text-red-400/40 hover:text-red-400 transition-colors">Delete</button>
+            </div>
+          </div>
+        ))
+      )}
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') save(); }}
+          className={inputClass}
+          placeholder="Save current as..."
+        />
+        <button
+          onClick={save}
+          disabled={!name.trim()}
+          className="px-6 bg-amber-500/20 hover:bg-amber-500/30 border border-amber-500/40 rounded-2xl text-[10px] font-black uppercase tracking-widest text-amber-300 transition-colors disabled:opacity-30"
+        >
+          Save
+        </button>
+      </div>
+
+      <button
+        onClick={() => fileRef.current?.click()}
+        className="w-full py-4 bg-white/5 hover:bg-white/10 rounded-2xl text-[10px] font-black uppercase tracking-[0.2em] transition-all text-white/30 border border-white/5"
+      >
+        Import Profile File
+      </button>
+      <input
+        ref={fileRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) importFile(file);
+          e.target.value = '';
+        }}
+      />
+      {importError && <p className="text-[10px] text-red-400/60 font-mono px-2 break-words">{importError}</p>}
+      <p className="text-[10px] text-white/20 px-2">Profiles include webhook and trigger credentials. The trigger topic and device name stay with this device.</p>
+    </div>
+  );
+};
@@ -1,14 +1,125 @@
 
-import React from 'react';
-import { Recording } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { DeliveryRecord, DeliveryState, ProcessingState, Recording } from '../types';
+import { recordingFilename } from '../services/audioFormats';
+import { computePeaks, decodeBlob, restoreOriginal, setPlaybackGain, splitRecording, trimRecording } from '../services/audioEdit';
+import { WaveSelection, Waveform } from './Waveform';
 
 interface RecordingCardProps {
   recording: Recording;
+  delivery?: DeliveryRecord;
+  canResend?: boolean;
   onDelete: (id: string) => void;
   onUpdate: (recording: Recording) => void;
+  onResend?: (id: string) => void;
+  canTranscribe?: boolean;
+  onTranscribe?: (id: string) => void;
+  onSplit?: (first: Recording, second: Recording) => void;
 }
 
-export const RecordingCard: React.FC<RecordingCardProps> = ({ recording, onDelete }) => {
+const PEAK_BUCKETS = 160;
+// Selections closer than this to an edge count as touching it.
+const EDGE_SECONDS = 0.05;
+
+const DELIVERY_STYLES: Record<DeliveryState, string> = {
+  pending: 'text-amber-400 bg-amber-500/10',
+  sending: 'text-blue-400 bg-blue-500/10 animate-pulse',
+  delivered: 'text-green-400 bg-green-500/10',
+  failed: 'text-red-400 bg-red-500/10'
+};
+
+const PROCESSING_STYLES: Record<ProcessingState, string> = {
+  queued: 'text-amber-400 bg-amber-500/10',
+  running: 'text-blue-400 bg-blue-500/10 animate-pulse',
+  done: 'text-green-400 bg-green-500/10',
+  failed: 'text-red-400 bg-red-500/10'
+};
+
+// Edits stay local until the field loses focus, then save once.
+const EditableText: React.FC<{
+  label: string;
+  value?: string;
+  placeholder: string;
+  onSave: (value: string) => void;
+}> = ({ label, value = '', placeholder, onSave }) => {
+  const [draft, setDraft] = useState(value);
+  useEffect(() => setDraft(value), [value]);
+
+  return (
+    <label className="block space-y-1">
+      <span className="text-[10px] font-black uppercase tracking-widest text-white/20">{label}</span>
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={() => { if (draft !== value) onSave(draft); }}
+        placeholder={placeholder}
+        rows={Math.min(6, Math.max(2, Math.ceil(draft.length / 48)))}
+        className="w-full bg-white/[0.03] border border-white/5 rounded-xl px-3 py-2 text-[12px] leading-relaxed text-white/70 focus:outline-none focus:border-white/20 resize-none"
+      />
+    </label>
+  );
+};
+
+export const RecordingCard: React.FC<RecordingCardProps> = ({
+  recording, delivery, canResend = false, onDelete, onUpdate, onResend, canTranscribe = false, onTranscribe, onSplit
+}) => {
+  const processing = recording.processing;
+  const hasText = recording.transcription !== undefined || recording.summary !== undefined;
+
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [peaks, setPeaks] = useState<Float32Array | null>(null);
+  const [length, setLength] = useState(recording.duration);
+  const [selection, setSelection] = useState<WaveSelection | null>(null);
+  const [position, setPosition] = useState(0);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editError, setEditError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPeaks(null);
+    setSelection(null);
+    decodeBlob(recording.blob)
+      .then(buffer => {
+        if (cancelled) return;
+        setLength(buffer.duration);
+        setPeaks(computePeaks(buffer, PEAK_BUCKETS));
+      })
+      .catch(() => { if (!cancelled) setEditError('Cannot decode audio'); });
+    return () => { cancelled = true; };
+  }, [recording.blob]);
+
+  const hasRange = !!selection && selection.end - selection.start > EDGE_SECONDS;
+  const canTrim = hasRange && (selection!.start > EDGE_SECONDS || selection!.end < length - EDGE_SECONDS);
+  const splitAt = selection?.start ?? 0;
+  const canSplit = !!onSplit && !!selection && splitAt > EDGE_SECONDS && splitAt < length - EDGE_SECONDS;
+
+  const edit = async (action: () => Promise<void>) => {
+    setIsEditing(true);
+    setEditError(null);
+    try {
+      await action();
+      setSelection(null);
+    } catch (e) {
+      setEditError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsEditing(false);
+    }
+  };
+
+  const handleTimeUpdate = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    setPosition(audio.currentTime);
+    if (hasRange && !audio.paused && audio.currentTime >= selection!.end) audio.pause();
+  };
+
+  const playSelection = () => {
+    const audio = audioRef.current;
+    if (!audio || !selection) return;
+    audio.currentTime = selection.start;
+    audio.play().catch(() => {});
+  };
+
   const formatDate = (ts: number) => {
     return new Intl.DateTimeFormat('en-US', {
       hour: '2-digit',
@@ -33,13 +144,27 @@ export const RecordingCard: React.FC<RecordingCardProps> = ({ recording, onDelet
         <div>
           <h3 className="text-sm font-bold text-white/90">{formatDate(recording.timestamp)}</h3>
           <p className="text-[10px] text-white/30 uppercase tracking-widest font-bold mt-1">
-            {recording.duration.toFixed(1)}s • {formatFileSize(recording.blob.size)} • Audio Log
+            {recording.duration.toFixed(1)}s • {formatFileSize(recording.blob.size)} • {recording.extension}
+            {recording.captureMode && recording.captureMode !== 'vad' && ` • ${recording.captureMode}`}
+            {recording.gain !== undefined && ` • ${recording.gain > 0 ? '+' : ''}${recording.gain}dB`}
           </p>
+          {recording.source && (
+            <p className="text-[10px] text-white/20 font-mono mt-1 truncate" title={recording.source.fileName}>
+              {recording.source.fileName} @ {recording.source.offset.toFixed(1)}s
+            </p>
+          )}
         </div>
         <div className="flex gap-2">
+          <button
+            onClick={() => onUpdate({ ...recording, pinned: !recording.pinned })}
+            className={`p-2 rounded-xl transition-colors ${recording.pinned ? 'bg-amber-500/20 text-amber-300' : 'bg-white/5 hover:bg-white/10 text-white/30'}`}
+            title={recording.pinned ? 'Pinned: kept by retention' : 'Pin'}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill={recording.pinned ? 'currentColor' : 'none'} stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="12" y1="17" x2="12" y2="22"/><path d="M5 17h14v-1.76a2 2 0 0 0-1.11-1.79l-1.78-.9A2 2 0 0 1 15 10.76V6h1a2 2 0 0 0 0-4H8a2 2 0 0 0 0 4h1v4.76a2 2 0 0 1-1.11 1.79l-1.78.9A2 2 0 0 0 5 15.24Z"/></svg>
+          </button>
           <a 
             href={recording.url} 
-            download={`recording-${recording.id}.webm`}
+            download={recordingFilename(recording)}
             className="p-2 bg-white/5 hover:bg-white/10 rounded-xl text-white/60 transition-colors"
             title="Download"
           >
@@ -54,8 +179,143 @@ export const RecordingCard: React.FC<RecordingCardProps> = ({ recording, onDelet
         </div>
       </div>
 
+      {(delivery || canResend) && (
+        <div className="flex items-center justify-between gap-3 mb-4">
+          {delivery ? (
+            <span
+              className={`text-[10px] font-black uppercase tracking-widest px-3 py-1 rounded-full ${DELIVERY_STYLES[delivery.state]}`}
+              title={delivery.lastError}
+            >
+              {delivery.state}
+              {delivery.attempts > 0 && delivery.state !== 'delivered' && ` • ${delivery.attempts}x`}
+            </span>
+          ) : (
+            <span className="text-[10px] font-black uppercase tracking-widest text-white/20">Not forwarded</span>
+          )}
+          {canResend && onResend && delivery?.state !== 'sending' && (
+            <button
+              onClick={() => onResend(recording.id)}
+              className="text-[10px] font-black uppercase tracking-widest text-white/40 hover:text-white transition-colors"
+            >
+              {delivery ? 'Resend' : 'Send'}
+            </button>
+          )}
+        </div>
+      )}
+      {delivery?.state === 'failed' && delivery.lastError && (
+        <p className="text-[10px] text-red-400/60 font-mono mb-4 truncate">{delivery.lastError}</p>
+      )}
+
+      {(processing || canTranscribe) && (
+        <div className="flex items-center justify-between gap-3 mb-4">
+          {processing ? (
+            <span
+              className={`text-[10px] font-black uppercase tracking-widest px-3 py-1 rounded-full ${PROCESSING_STYLES[processing.state]}`}
+              title={processing.error}
+            >
+              {processing.state === 'done' ? 'transcribed' : processing.state}
+            </span>
+          ) : (
+            <span className="text-[10px] font-black uppercase tracking-widest text-white/20">No transcript</span>
+          )}
+          {canTranscribe && onTranscribe && processing?.state !== 'running' && processing?.state !== 'queued' && (
+            <button
+              onClick={() => onTranscribe(recording.id)}
+              className="text-[10px] font-black uppercase tracking-widest text-white/40 hover:text-white transition-colors"
+            >
+              {processing ? 'Redo' : 'Transcribe'}
+            </button>
+          )}
+        </div>
+      )}
+      {processing?.state === 'failed' && processing.error && (
+        <p className="text-[10px] text-red-400/60 font-mono mb-4 truncate">{processing.error}</p>
+      )}
+
+      {(hasText || processing?.state === 'done') && (
+        <div className="space-y-3 mb-4">
+          <EditableText
+            label="Summary"
+            value={recording.summary}
+            placeholder="No summary"
+            onSave={(summary) => onUpdate({ ...recording, summary })}
+          />
+          <EditableText
+            label="Transcript"
+            value={recording.transcription}
+            placeholder="No transcript"
+            onSave={(transcription) => onUpdate({ ...recording, transcription })}
+          />
+        </div>
+      )}
+
+      <div className="mb-3">
+        <Waveform
+          peaks={peaks}
+          duration={length}
+          selection={selection}
+          position={position}
+          onSelect={setSelection}
+        />
+      </div>
+
+      {(selection || recording.original) && (
+        <div className="flex flex-wrap items-center gap-4 mb-3">
+          {selection && (
+            <span className="text-[10px] font-mono text-white/30">
+              {selection.start.toFixed(2)}s{hasRange && ` – ${selection.end.toFixed(2)}s`}
+            </span>
+          )}
+          {hasRange && (
+            <button onClick={playSelection} className="text-[10px] font-black uppercase tracking-widest text-white/40 hover:text-white transition-colors">Play</button>
+          )}
+          {canTrim && (
+            <button
+              disabled={isEditing}
+              onClick={() => edit(async () => onUpdate(await trimRecording(recording, selection!.start, selection!.end)))}
+              className="text-[10px] font-black uppercase tracking-widest text-white/40 hover:text-white transition-colors disabled:opacity-30"
+            >
+              Trim
+            </button>
+          )}
+          {canSplit && (
+            <button
+              disabled={isEditing}
+              onClick={() => edit(async () => onSplit!(...await splitRecording(recording, splitAt)))}
+              className="text-[10px] font-black uppercase tracking-widest text-white/40 hover:text-white transition-colors disabled:opacity-30"
+            >
+              Split
+            </button>
+          )}
+          {selection && (
+            <button onClick={() => setSelection(null)} className="text-[10px] font-black uppercase tracking-widest text-white/20 hover:text-white transition-colors">Clear</button>
+          )}
+          {recording.original && (
+            <button
+              disabled={isEditing}
+              onClick={() => edit(async () => onUpdate(restoreOriginal(recording)))}
+              className="ml-auto text-[10px] font-black uppercase tracking-widest text-amber-400/60 hover:text-amber-300 transition-colors disabled:opacity-30"
+              title="Restore the audio as captured"
+            >
+              Undo Edits
+            </button>
+          )}
+        </div>
+      )}
+      {editError && (
+        <p className="text-[10px] text-red-400/60 font-mono mb-3 truncate">{editError}</p>
+      )}
+
       <div className="mt-4">
-        <audio src={recording.url} controls className="w-full h-10 opacity-80 filter invert grayscale" />
+        <audio
+          ref={audioRef}
+          src={recording.url}
+          controls
+          onPlay={() => setPlaybackGain(audioRef.current!, recording.gain ?? 0)}
+          onTimeUpdate={handleTimeUpdate}
+          onEnded={() => setPosition(0)}
+          className="w-full h-10 opacity-80 filter invert grayscale"
+        />
       </div>
     </div>
   );
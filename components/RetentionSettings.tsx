@@ -0,0 +1,92 @@
+import React from 'react';
+import { RetentionSettings as Retention } from '../types';
+import { QUOTA_WARNING_RATIO, StorageStatus } from '../services/retention';
+
+interface RetentionSettingsProps {
+  settings: Retention;
+  onChange: (settings: Retention) => void;
+  storage: StorageStatus | null;
+  archiveBytes: number;
+  onRequestPersistence: () => void;
+}
+
+const labelClass = "flex justify-between text-[11px] font-black uppercase tracking-[0.3em] text-white/30 px-4";
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 ** 3) return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+  return `${(bytes / 1024 ** 3).toFixed(2)} GB`;
+};
+
+export const RetentionSettings: React.FC<RetentionSettingsProps> = ({ settings, onChange, storage, archiveBytes, onRequestPersistence }) => {
+  const share = storage ? storage.usage / storage.quota : 0;
+
+  return (
+    <div className="space-y-10">
+      <div className="space-y-4">
+        <div className={labelClass}>
+          <span>Storage</span>
+          <span className="text-white/60">
+            {storage ? `${formatBytes(storage.usage)} / ${formatBytes(storage.quota)}` : 'Unknown'}
+          </span>
+        </div>
+        {storage && (
+          <div className="h-2 mx-4 bg-white/5 rounded-full overflow-hidden">
+            <div
+              className={`h-full rounded-full transition-all ${share >= QUOTA_WARNING_RATIO ? 'bg-red-500' : 'bg-blue-500'}`}
+              style={{ width: `${Math.min(100, share * 100)}%` }}
+            />
+          </div>
+        )}
+        <div className="flex justify-between items-center px-4">
+          <span className="text-[10px] font-black uppercase tracking-widest text-white/20">Archive {formatBytes(archiveBytes)}</span>
+          {storage?.persisted ? (
+            <span className="text-[10px] font-black uppercase tracking-widest text-green-400/60">Persistent</span>
+          ) : (
+            <button onClick={onRequestPersistence} className="text-[10px] font-black uppercase tracking-widest text-white/40 hover:text-white transition-colors">
+              Make Persistent
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <div className={labelClass}>
+          <span>Max Age</span>
+          <span className="text-white/60">{settings.maxAgeDays > 0 ? `${settings.maxAgeDays}d` : 'Forever'}</span>
+        </div>
+        <input
+          type="range" min="0" max="365" step="1" value={settings.maxAgeDays}
+          onChange={(e) => onChange({ ...settings, maxAgeDays: parseInt(e.target.value) })}
+          className="w-full accent-blue-500 cursor-pointer"
+        />
+      </div>
+
+      <div className="space-y-4">
+        <div className={labelClass}>
+          <span>Max Size</span>
+          <span className="text-white/60">{settings.maxSizeMB > 0 ? formatBytes(settings.maxSizeMB * 1024 * 1024) : 'Unlimited'}</span>
+        </div>
+        <input
+          type="range" min="0" max="10240" step="128" value={settings.maxSizeMB}
+          onChange={(e) => onChange({ ...settings, maxSizeMB: parseInt(e.target.value) })}
+          className="w-full accent-blue-500 cursor-pointer"
+        />
+      </div>
+
+      <div className="space-y-4">
+        <div className={labelClass}>
+          <span>Max Recordings</span>
+          <span className="text-white/60">{settings.maxCount > 0 ? settings.maxCount : 'Unlimited'}</span>
+        </div>
+        <input
+          type="range" min="0" max="5000" step="50" value={settings.maxCount}
+          onChange={(e) => onChange({ ...settings, maxCount: parseInt(e.target.value) })}
+          className="w-full accent-blue-500 cursor-pointer"
+        />
+      </div>
+
+      <p className="text-[10px] text-white/20 px-4">Oldest recordings go first. Pinned recordings and recordings the webhook has not yet accepted are kept.</p>
+    </div>
+  );
+};
@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { OneOffWindow, ScheduleSettings as Schedule, WeeklyWindow } from '../types';
+import {
+  ScheduleTransition,
+  WEEKDAYS,
+  formatMinutes,
+  fromLocalInput,
+  isValidTimeZone,
+  parseMinutes,
+  toLocalInput
+} from '../services/schedule';
+
+interface ScheduleSettingsProps {
+  schedule: Schedule;
+  onChange: (schedule: Schedule) => void;
+  next: ScheduleTransition | null;
+}
+
+const inputClass = "bg-white/5 border border-white/10 rounded-xl px-3 py-2 focus:outline-none focus:border-blue-500 transition-all font-mono text-[11px] text-white/70";
+const labelClass = "text-[11px] font-black uppercase tracking-[0.3em] text-white/30 px-4";
+const actionClass = "text-[10px] font-black uppercase tracking-widest text-white/40 hover:text-white transition-colors";
+
+const newId = () => Math.random().toString(36).substring(2, 11);
+
+const TIME_ZONES = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+
+const RemoveButton: React.FC<{ onClick: () => void }> = ({ onClick }) => (
+  <button onClick={onClick} className="p-2 bg-red-500/10 hover:bg-red-500/20 rounded-xl text-red-400 transition-colors shrink-0">
+    <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>
+  </button>
+);
+
+const WeeklyRow: React.FC<{ window: WeeklyWindow; onChange: (w: WeeklyWindow) => void; onRemove: () => void }> = ({ window, onChange, onRemove }) => (
+  <div className="space-y-2 p-3 bg-white/[0.02] rounded-2xl border border-white/5">
+    <div className="flex gap-1">
+      {WEEKDAYS.map((label, day) => {
+        const on = window.days.includes(day);
+        return (
+          <button
+            key={label}
+            onClick={() => onChange({ ...window, days: on ? window.days.filter(d => d !== day) : [...window.days, day].sort((a, b) => a - b) })}
+            className={`flex-1 py-1.5 rounded-lg text-[9px] font-black uppercase border transition-all ${on ? 'bg-blue-500/20 border-blue-500/40 text-blue-300' : 'bg-white/5 border-white/5 text-white/30 hover:text-white/60'}`}
+          >
+            {label.substring(0, 2)}
+          </button>
+        );
+      })}
+    </div>
+    <div className="flex items-center gap-2">
+      <input type="time" value={formatMinutes(window.start)} onChange={(e) => onChange({ ...window, start: parseMinutes(e.target.value) })} className={inputClass} />
+      <span className="text-white/20 text-[10px]">to</span>
+      <input type="time" value={formatMinutes(window.end)} onChange={(e) => onChange({ ...window, end: parseMinutes(e.target.value) })} className={inputClass} />
+      {window.end <= window.start && <span className="text-[9px] text-white/20 uppercase font-black">+1 day</span>}
+      <span className="flex-1" />
+      <RemoveButton onClick={onRemove} />
+    </div>
+  </div>
+);
+
+export const ScheduleSettings: React.FC<ScheduleSettingsProps> = ({ schedule, onChange, next }) => {
+  const set = (patch: Partial<Schedule>) => onChange({ ...schedule, ...patch });
+  const [timeZoneDraft, setTimeZoneDraft] = useState(schedule.timeZone);
+  const zone = schedule.timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  const weeklyList = (key: 'windows' | 'quietHours', label: string, defaults: Omit<WeeklyWindow, 'id'>) => (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center">
+        <span className={labelClass}>{label}</span>
+        <button onClick={() => set({ [key]: [...schedule[key], { id: newId(), ...defaults }] })} className={`${actionClass} px-4`}>Add</button>
+      </div>
+      {schedule[key].map(w => (
+        <WeeklyRow
+          key={w.id}
+          window={w}
+          onChange={(changed) => set({ [key]: schedule[key].map(x => x.id === w.id ? changed : x) })}
+          onRemove={() => set({ [key]: schedule[key].filter(x => x.id !== w.id) })}
+        />
+      ))}
+    </div>
+  );
+
+  const setOneOff = (id: string, patch: Partial<OneOffWindow>) =>
+    set({ oneOff: schedule.oneOff.map(w => w.id === id ? { ...w, ...patch } : w) });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center text-[11px] font-black uppercase tracking-[0.3em] text-white/30 px-4">
+        <span>Scheduled Listening</span>
+        <button
+          onClick={() => set({ enabled: !schedule.enabled })}
+          className={`px-4 py-2 rounded-full text-[10px] font-black uppercase tracking-widest border transition-all ${schedule.enabled ? 'bg-blue-500/20 border-blue-500/40 text-blue-300' : 'bg-white/5 border-white/5 text-white/30 hover:text-white/60'}`}
+        >
+          {schedule.enabled ? 'On' : 'Off'}
+        </button>
+      </div>
+
+      {schedule.enabled && (
+        <>
+          <p className="text-[10px] font-black uppercase tracking-widest text-white/40 px-4">
+            {next
+              ? `${next.active ? 'Starts' : 'Stops'} ${new Intl.DateTimeFormat('en-US', { weekday: 'short', hour: '2-digit', minute: '2-digit', timeZone: zone }).format(next.at)}`
+              : 'No upcoming transitions'}
+          </p>
+
+          <div className="space-y-2">
+            <span className={labelClass}>Time Zone</span>
+            <input
+              list="vf-time-zones"
+              value={timeZoneDraft}
+              onChange={(e) => {
+                setTimeZoneDraft(e.target.value);
+                if (isValidTimeZone(e.target.value)) set({ timeZone: e.target.value });
+              }}
+              className={`${inputClass} w-full px-5 py-3`}
+              placeholder={`Device (${Intl.DateTimeFormat().resolvedOptions().timeZone})`}
+            />
+            <datalist id="vf-time-zones">
+              {TIME_ZONES.map(tz => <option key={tz} value={tz} />)}
+            </datalist>
+            {!isValidTimeZone(timeZoneDraft) && <p className="text-[10px] text-red-400/60 font-mono px-4">Unknown time zone</p>}
+          </div>
+
+          {weeklyList('windows', 'Weekly Windows', { days: [1, 2, 3, 4, 5], start: 9 * 60, end: 17 * 60 })}
+
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <span className={labelClass}>One-Off Windows</span>
+              <button
+                onClick={() => {
+                  const start = Math.ceil(Date.now() / 3_600_000) * 3_600_000;
+                  set({ oneOff: [...schedule.oneOff, { id: newId(), start, end: start + 3_600_000 }] });
+                }}
+                className={`${actionClass} px-4`}
+              >
+                Add
+              </button>
+            </div>
+            {schedule.oneOff.map(w => (
+              <div key={w.id} className={`flex items-center gap-2 p-3 bg-white/[0.02] rounded-2xl border border-white/5 ${w.end <= Date.now() ? 'opacity-40' : ''}`}>
+                <input
+                  type="datetime-local"
+                  value={toLocalInput(w.start, schedule.timeZone)}
+                  onChange={(e) => {
+                    const start = fromLocalInput(e.target.value, schedule.timeZone);
+                    if (start !== null) setOneOff(w.id, { start });
+                  }}
+                  className={`${inputClass} min-w-0 flex-1`}
+                />
+                <input
+                  type="datetime-local"
+                  value={toLocalInput(w.end, schedule.timeZone)}
+                  onChange={(e) => {
+                    const end = fromLocalInput(e.target.value, schedule.timeZone);
+                    if (end !== null) setOneOff(w.id, { end });
+                  }}
+                  className={`${inputClass} min-w-0 flex-1`}
+                />
+                <RemoveButton onClick={() => set({ oneOff: schedule.oneOff.filter(x => x.id !== w.id) })} />
+              </div>
+            ))}
+          </div>
+
+          {weeklyList('quietHours', 'Quiet Hours', { days: [0, 1, 2, 3, 4, 5, 6], start: 22 * 60, end: 7 * 60 })}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,130 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Recording, Session } from '../types';
+import { exportSession, segmentStart, sessionBounds } from '../services/sessions';
+
+interface SessionGroupProps {
+  session: Session;
+  segments: Recording[]; // oldest first
+  children: React.ReactNode;
+}
+
+const formatClock = (ts: number) =>
+  new Intl.DateTimeFormat('en-US', { hour: '2-digit', minute: '2-digit', second: '2-digit' }).format(ts);
+
+const formatSpan = (ms: number) => {
+  const total = Math.round(ms / 1000);
+  const mins = Math.floor(total / 60);
+  return mins > 0 ? `${mins}m ${total % 60}s` : `${total}s`;
+};
+
+export const SessionGroup: React.FC<SessionGroupProps> = ({ session, segments, children }) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [playingIndex, setPlayingIndex] = useState<number | null>(null);
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [exporting, setExporting] = useState<'gaps' | 'joined' | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const { start, end } = sessionBounds(session, segments);
+  const span = Math.max(1, end - start);
+  const speech = segments.reduce((sum, r) => sum + r.duration * 1000, 0);
+
+  // Drive the hidden player from the index; running off the end stops it.
+  const currentUrl = playingIndex !== null ? segments[playingIndex]?.url : undefined;
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (!currentUrl) {
+      audio.pause();
+      setPlayingIndex(null);
+      return;
+    }
+    audio.src = currentUrl;
+    audio.play().catch(() => setPlayingIndex(null));
+  }, [currentUrl, playingIndex]);
+
+  const download = async (keepSilence: boolean) => {
+    setExporting(keepSilence ? 'gaps' : 'joined');
+    setExportError(null);
+    try {
+      const blob = await exportSession(segments, keepSilence);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `session-${session.id}${keepSilence ? '' : '-joined'}.wav`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (e) {
+      setExportError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="col-span-full bg-[#141414] border border-white/5 rounded-[2.5rem] p-6 space-y-5">
+      <div className="flex justify-between items-start gap-4">
+        <div>
+          <h3 className="text-sm font-bold text-white/90">
+            Session • {formatClock(start)} – {session.endedAt ? formatClock(end) : 'now'}
+          </h3>
+          <p className="text-[10px] text-white/30 uppercase tracking-widest font-bold mt-1">
+            {segments.length} segments • {formatSpan(speech)} speech • {formatSpan(span)} total
+          </p>
+        </div>
+        <button
+          onClick={() => setPlayingIndex(playingIndex === null ? 0 : null)}
+          className="px-4 py-2 bg-white/5 hover:bg-white/10 rounded-full text-[10px] font-black uppercase tracking-widest text-white/60 transition-colors shrink-0"
+        >
+          {playingIndex === null ? 'Play All' : 'Stop'}
+        </button>
+      </div>
+
+      <div className="relative h-10 bg-white/[0.03] rounded-xl border border-white/5 overflow-hidden">
+        {segments.map((segment, i) => (
+          <button
+            key={segment.id}
+            onClick={() => setPlayingIndex(i)}
+            title={`${formatClock(segmentStart(segment))} • ${segment.duration.toFixed(1)}s`}
+            className={`absolute top-1.5 bottom-1.5 rounded-sm transition-colors ${playingIndex === i ? 'bg-red-500' : 'bg-blue-500/60 hover:bg-blue-400'}`}
+            style={{
+              left: `${((segmentStart(segment) - start) / span) * 100}%`,
+              width: `max(3px, ${((segment.duration * 1000) / span) * 100}%)`
+            }}
+          />
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <button
+          disabled={!!exporting}
+          onClick={() => download(true)}
+          className="text-[10px] font-black uppercase tracking-widest text-white/40 hover:text-white transition-colors disabled:opacity-30"
+        >
+          {exporting === 'gaps' ? 'Exporting...' : 'Export With Gaps'}
+        </button>
+        <button
+          disabled={!!exporting}
+          onClick={() => download(false)}
+          className="text-[10px] font-black uppercase tracking-widest text-white/40 hover:text-white transition-colors disabled:opacity-30"
+        >
+          {exporting === 'joined' ? 'Exporting...' : 'Export Joined'}
+        </button>
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="ml-auto text-[10px] font-black uppercase tracking-widest text-white/40 hover:text-white transition-colors"
+        >
+          {isExpanded ? 'Hide Segments' : 'Show Segments'}
+        </button>
+      </div>
+      {exportError && <p className="text-[10px] text-red-400/60 font-mono truncate">{exportError}</p>}
+
+      {isExpanded && <div className="grid grid-cols-1 md:grid-cols-2 gap-6">{children}</div>}
+
+      <audio
+        ref={audioRef}
+        onEnded={() => setPlayingIndex(i => i === null ? null : i + 1)}
+        className="hidden"
+      />
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+import React from 'react';
+import { AudioSettings } from '../types';
+import { MonitorMode } from '../services/signalChain';
+
+interface SignalChainSettingsProps {
+  settings: AudioSettings;
+  onChange: (changes: Partial<AudioSettings>) => void;
+  /** The monitor needs the microphone open. */
+  isRunning: boolean;
+  monitorMode: MonitorMode;
+  onMonitor: (mode: MonitorMode) => void;
+}
+
+interface Stage {
+  key: 'highPassFrequency' | 'gateThreshold' | 'compressorThreshold' | 'compressorRatio' | 'makeupGain' | 'normalizeTarget';
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+}
+
+// At 0 the filter, gate, compressor and normalisation are left out.
+const STAGES: Stage[] = [
+  { key: 'highPassFrequency', label: 'High-Pass', min: 0, max: 300, step: 10, format: v => v > 0 ? `${v}Hz` : 'Off' },
+  { key: 'gateThreshold', label: 'Noise Gate', min: -80, max: 0, step: 1, format: v => v < 0 ? `${v}dB` : 'Off' },
+  { key: 'compressorThreshold', label: 'Compressor', min: -60, max: 0, step: 1, format: v => v < 0 ? `${v}dB` : 'Off' },
+  { key: 'compressorRatio', label: 'Ratio', min: 1, max: 20, step: 1, format: v => v >= 20 ? 'Limit' : `${v}:1` },
+  { key: 'makeupGain', label: 'Makeup Gain', min: 0, max: 24, step: 1, format: v => `+${v}dB` },
+  { key: 'normalizeTarget', label: 'Normalise To', min: -40, max: 0, step: 1, format: v => v < 0 ? `${v}dB` : 'Off' }
+];
+
+const MONITOR_LABELS: Record<MonitorMode, string> = {
+  off: 'Off',
+  raw: 'A · Raw',
+  processed: 'B · Processed'
+};
+
+export const SignalChainSettings: React.FC<SignalChainSettingsProps> = ({
+  settings, onChange, isRunning, monitorMode, onMonitor
+}) => (
+  <div className="space-y-8">
+    <div className="grid grid-cols-2 gap-6">
+      {STAGES.map(stage => (
+        <div key={stage.key} className="space-y-4">
+          <div className="flex justify-between text-[11px] font-black uppercase tracking-[0.3em] text-white/30 px-4">
+            <span>{stage.label}</span>
+            <span className="text-white/60">{stage.format(settings[stage.key])}</span>
+          </div>
+          <input
+            type="range" min={stage.min} max={stage.max} step={stage.step} value={settings[stage.key]}
+            onChange={(e) => onChange({ [stage.key]: parseInt(e.target.value) })}
+            className="w-full accent-blue-500 cursor-pointer"
+          />
+        </div>
+      ))}
+    </div>
+
+    <div className="space-y-4">
+      <div className="flex justify-between text-[11px] font-black uppercase tracking-[0.3em] text-white/30 px-4">
+        <span>A/B Monitor</span>
+        {!isRunning && <span className="text-white/20">Start listening first</span>}
+      </div>
+      <div className="flex flex-wrap gap-2 px-2">
+        {(Object.keys(MONITOR_LABELS) as MonitorMode[]).map(mode => (
+          <button
+            key={mode}
+            disabled={!isRunning && mode !== 'off'}
+            onClick={() => onMonitor(mode)}
+            className={`px-4 py-2 rounded-full text-[10px] font-black uppercase tracking-widest border transition-all disabled:opacity-20 disabled:cursor-not-allowed ${monitorMode === mode ? 'bg-blue-500/20 border-blue-500/40 text-blue-300' : 'bg-white/5 border-white/5 text-white/30 hover:text-white/60'}`}
+          >
+            {MONITOR_LABELS[mode]}
+          </button>
+        ))}
+      </div>
+      <p className="text-[10px] text-white/20 px-4">
+        Plays the microphone back live; use headphones. Normalisation rewrites each take at the target loudness; streamed takes have already gone out, so they keep their audio and play back with the gain instead.
+      </p>
+    </div>
+  </div>
+);
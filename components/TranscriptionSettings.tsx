@@ -0,0 +1,151 @@
+import React from 'react';
+import { ProcessingSettings, SummaryProviderType, TranscriptionProviderType } from '../types';
+import { DEFAULT_OPENAI_URL, DEFAULT_SUMMARY_PROMPT, DEFAULT_WHISPER_CPP_URL } from '../services/transcription';
+
+interface TranscriptionSettingsProps {
+  processing: ProcessingSettings;
+  onChange: (processing: ProcessingSettings) => void;
+}
+
+const inputClass = "w-full bg-white/5 border border-white/10 rounded-2xl px-5 py-4 focus:outline-none focus:border-violet-500 transition-all font-mono text-[12px] text-white/70 shadow-inner";
+const labelClass = "text-[10px] font-black uppercase tracking-widest text-white/30 px-2";
+
+const TRANSCRIPTION_LABELS: Record<TranscriptionProviderType, string> = {
+  none: 'Off',
+  openai: 'OpenAI API',
+  'whisper-cpp': 'whisper.cpp'
+};
+
+const SUMMARY_LABELS: Record<SummaryProviderType, string> = {
+  none: 'Off',
+  openai: 'Chat API'
+};
+
+const Toggle = <T extends string>({ options, value, onSelect }: {
+  options: Record<T, string>;
+  value: T;
+  onSelect: (value: T) => void;
+}) => (
+  <div className="flex gap-2">
+    {(Object.keys(options) as T[]).map(option => (
+      <button
+        key={option}
+        onClick={() => onSelect(option)}
+        className={`flex-1 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest border transition-all ${value === option ? 'bg-violet-500/20 border-violet-500/40 text-violet-300' : 'bg-white/5 border-white/5 text-white/30 hover:text-white/60'}`}
+      >
+        {options[option]}
+      </button>
+    ))}
+  </div>
+);
+
+export const TranscriptionSettings: React.FC<TranscriptionSettingsProps> = ({ processing, onChange }) => {
+  const set = (patch: Partial<ProcessingSettings>) => onChange({ ...processing, ...patch });
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <span className={labelClass}>Transcription</span>
+        <Toggle
+          options={TRANSCRIPTION_LABELS}
+          value={processing.transcriptionProvider}
+          onSelect={(transcriptionProvider) => set({ transcriptionProvider })}
+        />
+      </div>
+
+      {processing.transcriptionProvider !== 'none' && (
+        <>
+          <div className="space-y-2">
+            <span className={labelClass}>Server</span>
+            <input
+              type="text"
+              value={processing.transcriptionUrl}
+              onChange={(e) => set({ transcriptionUrl: e.target.value })}
+              className={inputClass}
+              placeholder={processing.transcriptionProvider === 'whisper-cpp' ? DEFAULT_WHISPER_CPP_URL : DEFAULT_OPENAI_URL}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="password"
+              value={processing.transcriptionApiKey}
+              onChange={(e) => set({ transcriptionApiKey: e.target.value })}
+              className={inputClass}
+              placeholder="API Key"
+            />
+            {processing.transcriptionProvider === 'openai' ? (
+              <input
+                type="text"
+                value={processing.transcriptionModel}
+                onChange={(e) => set({ transcriptionModel: e.target.value })}
+                className={inputClass}
+                placeholder="whisper-1"
+              />
+            ) : (
+              <input
+                type="text"
+                value={processing.language}
+                onChange={(e) => set({ language: e.target.value.trim() })}
+                className={inputClass}
+                placeholder="Language (auto)"
+              />
+            )}
+          </div>
+          {processing.transcriptionProvider === 'openai' && (
+            <input
+              type="text"
+              value={processing.language}
+              onChange={(e) => set({ language: e.target.value.trim() })}
+              className={inputClass}
+              placeholder="Language (auto)"
+            />
+          )}
+
+          <div className="space-y-2">
+            <span className={labelClass}>Summary</span>
+            <Toggle
+              options={SUMMARY_LABELS}
+              value={processing.summaryProvider}
+              onSelect={(summaryProvider) => set({ summaryProvider })}
+            />
+          </div>
+
+          {processing.summaryProvider !== 'none' && (
+            <>
+              <input
+                type="text"
+                value={processing.summaryUrl}
+                onChange={(e) => set({ summaryUrl: e.target.value })}
+                className={inputClass}
+                placeholder={DEFAULT_OPENAI_URL}
+              />
+              <div className="grid grid-cols-2 gap-2">
+                <input
+                  type="password"
+                  value={processing.summaryApiKey}
+                  onChange={(e) => set({ summaryApiKey: e.target.value })}
+                  className={inputClass}
+                  placeholder="API Key"
+                />
+                <input
+                  type="text"
+                  value={processing.summaryModel}
+                  onChange={(e) => set({ summaryModel: e.target.value })}
+                  className={inputClass}
+                  placeholder="gpt-4o-mini"
+                />
+              </div>
+              <textarea
+                value={processing.summaryPrompt}
+                onChange={(e) => set({ summaryPrompt: e.target.value })}
+                className={`${inputClass} resize-none`}
+                rows={3}
+                placeholder={DEFAULT_SUMMARY_PROMPT}
+              />
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+import React from 'react';
+import { AutomationSettings, TriggerTransportType } from '../types';
+import { DEFAULT_NTFY_BASE_URL, TransportState } from '../services/triggerTransport';
+
+interface TriggerSettingsProps {
+  automation: AutomationSettings;
+  onChange: (automation: AutomationSettings) => void;
+  connectionState: TransportState;
+  connectionDetail?: string;
+}
+
+const inputClass = "w-full bg-white/5 border border-white/10 rounded-2xl px-5 py-4 focus:outline-none focus:border-blue-500 transition-all font-mono text-[12px] text-white/70 shadow-inner";
+const labelClass = "text-[10px] font-black uppercase tracking-widest text-white/30 px-2";
+
+const TRANSPORT_LABELS: Record<TriggerTransportType, string> = {
+  ntfy: 'ntfy',
+  sse: 'SSE',
+  websocket: 'WebSocket',
+  mqtt: 'MQTT'
+};
+
+const STATE_STYLES: Record<TransportState, string> = {
+  disconnected: 'bg-white/10',
+  connecting: 'bg-blue-500 animate-pulse',
+  connected: 'bg-green-500',
+  reconnecting: 'bg-amber-500 animate-pulse'
+};
+
+export const TriggerSettings: React.FC<TriggerSettingsProps> = ({ automation, onChange, connectionState, connectionDetail }) => {
+  const set = (patch: Partial<AutomationSettings>) => onChange({ ...automation, ...patch });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3 px-2">
+        <span className={`w-2.5 h-2.5 rounded-full ${STATE_STYLES[connectionState]}`} />
+        <span className="text-[10px] font-black uppercase tracking-widest text-white/40">{connectionState}</span>
+        {connectionDetail && connectionState !== 'connected' && (
+          <span className="text-[10px] font-mono text-white/20 truncate">{connectionDetail}</span>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        {(Object.keys(TRANSPORT_LABELS) as TriggerTransportType[]).map(type => (
+          <button
+            key={type}
+            onClick={() => set({ triggerTransport: type })}
+            className={`flex-1 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest border transition-all ${automation.triggerTransport === type ? 'bg-blue-500/20 border-blue-500/40 text-blue-300' : 'bg-white/5 border-white/5 text-white/30 hover:text-white/60'}`}
+          >
+            {TRANSPORT_LABELS[type]}
+          </button>
+        ))}
+      </div>
+
+      {automation.triggerTransport !== 'sse' && automation.triggerTransport !== 'websocket' && (
+        <div className="space-y-2">
+          <span className={labelClass}>Topic</span>
+          <input
+            type="text"
+            value={automation.remoteTriggerId}
+            onChange={(e) => set({ remoteTriggerId: e.target.value.trim() })}
+            className={inputClass}
+          />
+        </div>
+      )}
+
+      {automation.triggerTransport === 'ntfy' && (
+        <>
+          <div className="space-y-2">
+            <span className={labelClass}>Server</span>
+            <input
+              type="text"
+              value={automation.ntfyBaseUrl}
+              onChange={(e) => set({ ntfyBaseUrl: e.target.value })}
+              className={inputClass}
+              placeholder={DEFAULT_NTFY_BASE_URL}
+            />
+          </div>
+          <div className="space-y-2">
+            <span className={labelClass}>Access Token</span>
+            <input
+              type="password"
+              value={automation.ntfyToken}
+              onChange={(e) => set({ ntfyToken: e.target.value })}
+              className={inputClass}
+              placeholder="tk_..."
+            />
+          </div>
+        </>
+      )}
+
+      {(automation.triggerTransport === 'sse' || automation.triggerTransport === 'websocket') && (
+        <div className="space-y-2">
+          <span className={labelClass}>{automation.triggerTransport === 'sse' ? 'Stream URL' : 'Socket URL'}</span>
+          <input
+            type="text"
+            value={automation.triggerUrl}
+            onChange={(e) => set({ triggerUrl: e.target.value })}
+            className={inputClass}
+            placeholder={automation.triggerTransport === 'sse' ? 'https://host/events' : 'wss://host/socket'}
+          />
+        </div>
+      )}
+
+      {automation.triggerTransport === 'mqtt' && (
+        <>
+          <div className="space-y-2">
+            <span className={labelClass}>Broker</span>
+            <input
+              type="text"
+              value={automation.mqttUrl}
+              onChange={(e) => set({ mqttUrl: e.target.value })}
+              className={inputClass}
+              placeholder="wss://broker:8884/mqtt"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="text"
+              value={automation.mqttUsername}
+              onChange={(e) => set({ mqttUsername: e.target.value })}
+              className={inputClass}
+              placeholder="Username"
+            />
+            <input
+              type="password"
+              value={automation.mqttPassword}
+              onChange={(e) => set({ mqttPassword: e.target.value })}
+              className={inputClass}
+              placeholder="Password"
+            />
+          </div>
+        </>
+      )}
+
+      {automation.triggerTransport !== 'websocket' && (
+        <div className="space-y-2">
+          <span className={labelClass}>{automation.triggerTransport === 'sse' ? 'Reply URL' : 'Reply Topic'}</span>
+          <input
+            type="text"
+            value={automation.replyTopic}
+            onChange={(e) => set({ replyTopic: e.target.value.trim() })}
+            className={inputClass}
+            placeholder={automation.triggerTransport === 'sse' ? 'https://host/replies' : `${automation.remoteTriggerId}-reply`}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
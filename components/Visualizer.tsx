@@ -4,10 +4,11 @@ import React, { useEffect, useRef } from 'react';
 interface VisualizerProps {
   volume: number;
   isActive: boolean;
-  sensitivity: number;
+  threshold: number; // same 0-255 scale as volume
+  isCalibrating?: boolean;
 }
 
-export const Visualizer: React.FC<VisualizerProps> = ({ volume, isActive, sensitivity }) => {
+export const Visualizer: React.FC<VisualizerProps> = ({ volume, isActive, threshold, isCalibrating = false }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
   useEffect(() => {
@@ -17,7 +18,6 @@ export const Visualizer: React.FC<VisualizerProps> = ({ volume, isActive, sensit
     if (!ctx) return;
 
     let animationFrameId: number;
-    const threshold = sensitivity * 2.5;
 
     const render = () => {
       const width = canvas.width;
@@ -65,7 +65,7 @@ export const Visualizer: React.FC<VisualizerProps> = ({ volume, isActive, sensit
 
     render();
     return () => cancelAnimationFrame(animationFrameId);
-  }, [volume, isActive, sensitivity]);
+  }, [volume, isActive, threshold]);
 
   return (
     <div className="relative flex justify-center items-center h-64 w-full">
@@ -77,7 +77,7 @@ export const Visualizer: React.FC<VisualizerProps> = ({ volume, isActive, sensit
       />
       <div className="absolute flex flex-col items-center pointer-events-none">
         <span className="text-xs font-bold tracking-widest uppercase opacity-60">
-          {isActive ? (volume > sensitivity * 2.5 ? 'Talking' : 'Listening') : 'Standby'}
+          {isActive ? (isCalibrating ? 'Calibrating' : volume > threshold ? 'Talking' : 'Listening') : 'Standby'}
         </span>
       </div>
     </div>
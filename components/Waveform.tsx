@@ -0,0 +1,101 @@
+import React, { useEffect, useRef } from 'react';
+
+export interface WaveSelection {
+  start: number; // seconds
+  end: number;   // seconds; equal to start for a plain cursor
+}
+
+interface WaveformProps {
+  peaks: Float32Array | null;
+  duration: number;
+  selection: WaveSelection | null;
+  position: number; // playhead, seconds
+  onSelect: (selection: WaveSelection | null) => void;
+}
+
+const HEIGHT = 64;
+
+export const Waveform: React.FC<WaveformProps> = ({ peaks, duration, selection, position, onSelect }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragFromRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    const width = canvas.clientWidth;
+    canvas.width = width * ratio;
+    canvas.height = HEIGHT * ratio;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, width, HEIGHT);
+
+    const toX = (seconds: number) => duration > 0 ? (seconds / duration) * width : 0;
+
+    if (selection && selection.end > selection.start) {
+      ctx.fillStyle = 'rgba(59, 130, 246, 0.15)';
+      ctx.fillRect(toX(selection.start), 0, toX(selection.end) - toX(selection.start), HEIGHT);
+    }
+
+    if (peaks) {
+      const barWidth = width / peaks.length;
+      const mid = HEIGHT / 2;
+      peaks.forEach((peak, i) => {
+        const x = i * barWidth;
+        const t = (i / peaks.length) * duration;
+        const inside = !selection || selection.end <= selection.start || (t >= selection.start && t < selection.end);
+        ctx.fillStyle = inside ? 'rgba(255, 255, 255, 0.6)' : 'rgba(255, 255, 255, 0.15)';
+        const h = Math.max(1, peak * (HEIGHT - 4));
+        ctx.fillRect(x, mid - h / 2, Math.max(1, barWidth - 1), h);
+      });
+    }
+
+    if (selection) {
+      ctx.fillStyle = '#3b82f6';
+      ctx.fillRect(toX(selection.start) - 1, 0, 2, HEIGHT);
+      if (selection.end > selection.start) ctx.fillRect(toX(selection.end) - 1, 0, 2, HEIGHT);
+    }
+
+    if (position > 0) {
+      ctx.fillStyle = '#ef4444';
+      ctx.fillRect(toX(position) - 1, 0, 2, HEIGHT);
+    }
+  }, [peaks, duration, selection, position]);
+
+  const timeAt = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)) * duration;
+  };
+
+  const handleDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const t = timeAt(e);
+    dragFromRef.current = t;
+    onSelect({ start: t, end: t });
+  };
+
+  const handleMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const from = dragFromRef.current;
+    if (from === null) return;
+    const t = timeAt(e);
+    onSelect({ start: Math.min(from, t), end: Math.max(from, t) });
+  };
+
+  const handleUp = () => {
+    dragFromRef.current = null;
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      onPointerDown={handleDown}
+      onPointerMove={handleMove}
+      onPointerUp={handleUp}
+      onPointerCancel={handleUp}
+      className={`w-full cursor-crosshair touch-none ${peaks ? '' : 'animate-pulse bg-white/[0.03] rounded-xl'}`}
+      style={{ height: HEIGHT }}
+    />
+  );
+};
@@ -0,0 +1,187 @@
+import React from 'react';
+import { AutomationSettings, StreamMode, WebhookAuthType, WebhookPayloadShape } from '../types';
+import { SEGMENT_HEADER, SEQUENCE_HEADER, SIGNATURE_HEADER } from '../services/webhook';
+
+interface WebhookSettingsProps {
+  automation: AutomationSettings;
+  onChange: (automation: AutomationSettings) => void;
+}
+
+const inputClass = "w-full bg-white/5 border border-white/10 rounded-2xl px-5 py-4 focus:outline-none focus:border-emerald-500 transition-all font-mono text-[12px] text-white/70 shadow-inner";
+const labelClass = "text-[10px] font-black uppercase tracking-widest text-white/30 px-2";
+
+const PAYLOAD_LABELS: Record<WebhookPayloadShape, string> = {
+  multipart: 'Multipart',
+  json: 'JSON + Base64'
+};
+
+const AUTH_LABELS: Record<WebhookAuthType, string> = {
+  none: 'None',
+  bearer: 'Bearer',
+  basic: 'Basic'
+};
+
+const STREAM_LABELS: Record<StreamMode, string> = {
+  off: 'Off',
+  http: 'HTTP',
+  websocket: 'WebSocket'
+};
+
+const Toggle = <T extends string>({ options, value, onSelect }: {
+  options: Record<T, string>;
+  value: T;
+  onSelect: (value: T) => void;
+}) => (
+  <div className="flex gap-2">
+    {(Object.keys(options) as T[]).map(option => (
+      <button
+        key={option}
+        onClick={() => onSelect(option)}
+        className={`flex-1 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest border transition-all ${value === option ? 'bg-emerald-500/20 border-emerald-500/40 text-emerald-300' : 'bg-white/5 border-white/5 text-white/30 hover:text-white/60'}`}
+      >
+        {options[option]}
+      </button>
+    ))}
+  </div>
+);
+
+export const WebhookSettings: React.FC<WebhookSettingsProps> = ({ automation, onChange }) => {
+  const set = (patch: Partial<AutomationSettings>) => onChange({ ...automation, ...patch });
+
+  const setHeader = (index: number, patch: Partial<AutomationSettings['customHeaders'][number]>) =>
+    set({ customHeaders: automation.customHeaders.map((h, i) => i === index ? { ...h, ...patch } : h) });
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <span className={labelClass}>Device Name</span>
+        <input
+          type="text"
+          value={automation.deviceName}
+          onChange={(e) => set({ deviceName: e.target.value })}
+          className={inputClass}
+          placeholder={automation.remoteTriggerId}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <span className={labelClass}>Payload</span>
+        <Toggle options={PAYLOAD_LABELS} value={automation.payloadShape} onSelect={(payloadShape) => set({ payloadShape })} />
+      </div>
+
+      <div className="space-y-2">
+        <span className={labelClass}>Authorization</span>
+        <Toggle options={AUTH_LABELS} value={automation.authType} onSelect={(authType) => set({ authType })} />
+        {automation.authType === 'bearer' && (
+          <input
+            type="password"
+            value={automation.authToken}
+            onChange={(e) => set({ authToken: e.target.value })}
+            className={inputClass}
+            placeholder="Token"
+          />
+        )}
+        {automation.authType === 'basic' && (
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="text"
+              value={automation.authUsername}
+              onChange={(e) => set({ authUsername: e.target.value })}
+              className={inputClass}
+              placeholder="Username"
+            />
+            <input
+              type="password"
+              value={automation.authPassword}
+              onChange={(e) => set({ authPassword: e.target.value })}
+              className={inputClass}
+              placeholder="Password"
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex justify-between items-center">
+          <span className={labelClass}>Custom Headers</span>
+          <button
+            onClick={() => set({ customHeaders: [...automation.customHeaders, { name: '', value: '' }] })}
+            className="text-[10px] font-black uppercase tracking-widest text-white/40 hover:text-white transition-colors px-2"
+          >
+            Add
+          </button>
+        </div>
+        {automation.customHeaders.map((header, i) => (
+          <div key={i} className="flex gap-2">
+            <input
+              type="text"
+              value={header.name}
+              onChange={(e) => setHeader(i, { name: e.target.value })}
+              className={inputClass}
+              placeholder="X-Header"
+            />
+            <input
+              type="text"
+              value={header.value}
+              onChange={(e) => setHeader(i, { value: e.target.value })}
+              className={inputClass}
+              placeholder="value"
+            />
+            <button
+              onClick={() => set({ customHeaders: automation.customHeaders.filter((_, j) => j !== i) })}
+              className="px-4 bg-red-500/10 hover:bg-red-500/20 rounded-2xl text-red-400 transition-colors"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round"><line x1="18" y1="6" x2="6" y2="18"/><line x1="6" y1="6" x2="18" y2="18"/></svg>
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <span className={labelClass}>Live Streaming</span>
+        <Toggle options={STREAM_LABELS} value={automation.streamMode} onSelect={(streamMode) => set({ streamMode })} />
+        {automation.streamMode === 'websocket' && (
+          <input
+            type="text"
+            value={automation.streamUrl}
+            onChange={(e) => set({ streamUrl: e.target.value })}
+            className={inputClass}
+            placeholder="wss://example.com/stream"
+          />
+        )}
+        {automation.streamMode !== 'off' && (
+          <>
+            <div className="flex justify-between px-2 text-[10px] font-black uppercase tracking-widest text-white/30">
+              <span>Chunk Every</span>
+              <span className="text-white/60">{automation.streamTimeslice}ms</span>
+            </div>
+            <input
+              type="range" min="250" max="10000" step="250" value={automation.streamTimeslice}
+              onChange={(e) => set({ streamTimeslice: parseInt(e.target.value) })}
+              className="w-full accent-emerald-500 cursor-pointer"
+            />
+            <p className="text-[10px] text-white/20 font-mono px-2">
+              {automation.streamMode === 'http'
+                ? `Chunks POST to the webhook with ${SEGMENT_HEADER} and ${SEQUENCE_HEADER}, then a segment-complete event`
+                : 'JSON header frame, then a binary frame per chunk; segment-complete closes the socket'}
+            </p>
+          </>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <span className={labelClass}>HMAC Signing Secret</span>
+        <input
+          type="password"
+          value={automation.signingSecret}
+          onChange={(e) => set({ signingSecret: e.target.value })}
+          className={inputClass}
+          placeholder="Leave empty to disable"
+        />
+        {automation.signingSecret && (
+          <p className="text-[10px] text-white/20 font-mono px-2">{SIGNATURE_HEADER}: sha256=HMAC(timestamp + "." + body)</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import { useState, useEffect, useCallback } from 'react';
+import { EncryptionHeader, PassphraseError, createHeader, unlockHeader } from '../services/archiveCrypto';
+import { loadEncryptionHeader, rekeyArchive, saveEncryptionHeader, setArchiveKey } from '../services/archiveDB';
+import { onTabMessage, postTabMessage } from '../services/tabSync';
+
+export type ArchiveLockState = 'checking' | 'plain' | 'locked' | 'unlocked';
+
+const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+/**
+ * Whether the archive is encrypted and, if so, whether it is unlocked.
+ * archiveDB holds the key itself, so recordings written from anywhere are
+ * sealed with the current one.
+ */
+export function useArchiveLock() {
+  const [state, setState] = useState<ArchiveLockState>('checking');
+  const [header, setHeader] = useState<EncryptionHeader | null>(null);
+
+  // Also run when another tab re-keys the archive: whatever key this tab
+  // held no longer matches, so it locks.
+  const readHeader = useCallback(() => {
+    setArchiveKey('locked');
+    loadEncryptionHeader()
+      .then(stored => {
+        setHeader(stored ?? null);
+        if (!stored) setArchiveKey(null);
+        setState(stored ? 'locked' : 'plain');
+      })
+      .catch(e => console.error("Encryption header load failed:", e));
+  }, []);
+
+  useEffect(() => {
+    readHeader();
+    return onTabMessage(message => {
+      if (message.type === 'archive-key') readHeader();
+    });
+  }, [readHeader]);
+
+  const verify = useCallback(async (passphrase: string) => {
+    if (!header) throw new PassphraseError('Archive is not encrypted');
+    return unlockHeader(header, passphrase);
+  }, [header]);
+
+  const unlock = useCallback(async (passphrase: string) => {
+    const key = await verify(passphrase);
+    setArchiveKey(key);
+    setState('unlocked');
+  }, [verify]);
+
+  const lock = useCallback(() => {
+    if (!header) return;
+    setArchiveKey('locked');
+    setState('locked');
+  }, [header]);
+
+  /** Encrypts the existing archive under a new passphrase. */
+  const enable = useCallback(async (passphrase: string) => {
+    const created = await createHeader(passphrase, DEFAULT_AUTO_LOCK_MINUTES);
+    await rekeyArchive(created.key, created.header);
+    postTabMessage({ type: 'archive-key' });
+    setHeader(created.header);
+    setState('unlocked');
+  }, []);
+
+  const disable = useCallback(async (passphrase: string) => {
+    await verify(passphrase);
+    await rekeyArchive(null, null);
+    postTabMessage({ type: 'archive-key' });
+    setHeader(null);
+    setState('plain');
+  }, [verify]);
+
+  /** Re-encrypts the whole archive; a new salt means a new key. */
+  const changePassphrase = useCallback(async (current: string, next: string) => {
+    await verify(current);
+    const created = await createHeader(next, header!.autoLockMinutes);
+    await rekeyArchive(created.key, created.header);
+    postTabMessage({ type: 'archive-key' });
+    setHeader(created.header);
+  }, [verify, header]);
+
+  const setAutoLockMinutes = useCallback((autoLockMinutes: number) => {
+    if (!header) return;
+    const updated = { ...header, autoLockMinutes };
+    setHeader(updated);
+    saveEncryptionHeader(updated).catch(e => console.error("Encryption header write failed:", e));
+  }, [header]);
+
+  return {
+    state,
+    isLocked: state === 'checking' || state === 'locked',
+    autoLockMinutes: header?.autoLockMinutes ?? 0,
+    unlock,
+    lock,
+    enable,
+    disable,
+    changePassphrase,
+    setAutoLockMinutes
+  };
+}
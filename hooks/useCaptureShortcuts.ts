@@ -0,0 +1,83 @@
+import { useEffect, useRef } from 'react';
+
+export interface CaptureShortcutHandlers {
+  onStart: () => void;
+  onStop: () => void;
+  onMark: () => void;
+  onDeleteLast: () => void;
+  /** Only given in push-to-talk mode; Space is left alone otherwise. */
+  onTalk?: (pressed: boolean) => void;
+}
+
+/** Key (as in KeyboardEvent.code) to action, listed in the settings. */
+export const CAPTURE_SHORTCUTS = [
+  { code: 'Space', label: 'Space', action: 'Hold to talk (push-to-talk)' },
+  { code: 'KeyR', label: 'R', action: 'Start' },
+  { code: 'KeyS', label: 'S', action: 'Stop' },
+  { code: 'KeyM', label: 'M', action: 'Mark (cut segment)' },
+  { code: 'Delete', label: 'Del', action: 'Delete last recording' }
+] as const;
+
+// Typing into a field never triggers a shortcut.
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Space activates these, so it stays theirs.
+const isInteractive = (target: EventTarget | null) =>
+  target instanceof HTMLElement && !!target.closest('button, a[href], summary, label, [role="button"], [role="link"], [role="checkbox"], [role="switch"], [tabindex]:not([tabindex="-1"])');
+
+/**
+ * Keyboard control of capture while the app has focus. Shortcuts with a
+ * modifier held are left to the browser.
+ */
+export function useCaptureShortcuts(enabled: boolean, handlers: CaptureShortcutHandlers) {
+  const handlersRef = useRef(handlers);
+  useEffect(() => { handlersRef.current = handlers; });
+
+  useEffect(() => {
+    if (!enabled) return;
+    // The handler that was pressed gets the release, even if the mode
+    // changed in between.
+    let talking: ((pressed: boolean) => void) | null = null;
+    const release = () => {
+      const onTalk = talking;
+      talking = null;
+      onTalk?.(false);
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || isEditable(e.target)) return;
+      const h = handlersRef.current;
+      if (e.code === 'Space' && (!h.onTalk || isInteractive(e.target))) return;
+      if (!CAPTURE_SHORTCUTS.some(s => s.code === e.code)) return;
+      e.preventDefault();
+      if (e.repeat) return;
+      switch (e.code) {
+        case 'Space':
+          talking = h.onTalk!;
+          talking(true);
+          break;
+        case 'KeyR': h.onStart(); break;
+        case 'KeyS': h.onStop(); break;
+        case 'KeyM': h.onMark(); break;
+        case 'Delete': h.onDeleteLast(); break;
+      }
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || !talking) return;
+      e.preventDefault();
+      release();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    // The key-up never arrives once the window loses focus.
+    window.addEventListener('blur', release);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', release);
+      release();
+    };
+  }, [enabled]);
+}
@@ -0,0 +1,110 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { AudioSettings, Recording, Session } from '../types';
+import { ImportProgress, importAudioFile } from '../services/fileImport';
+
+export type ImportJobState = 'queued' | 'decoding' | 'detecting' | 'done' | 'failed' | 'cancelled';
+
+export const isJobRunning = (job: ImportJob) =>
+  job.state === 'queued' || job.state === 'decoding' || job.state === 'detecting';
+
+export interface ImportJob {
+  id: string;
+  fileName: string;
+  state: ImportJobState;
+  progress: number; // 0-1 within the current phase
+  segments?: number;
+  error?: string;
+}
+
+interface FileImportOptions {
+  settings: AudioSettings;
+  onImported: (session: Session, recordings: Recording[]) => void;
+  onLog?: (message: string) => void;
+}
+
+/**
+ * Splits dropped or picked audio files on speech, one file at a time since a
+ * decoded file can take hundreds of megabytes. Detection uses the settings
+ * as they are when the file's turn comes.
+ */
+export function useFileImport({ settings, onImported, onLog }: FileImportOptions) {
+  const [jobs, setJobs] = useState<ImportJob[]>([]);
+
+  const settingsRef = useRef(settings);
+  useEffect(() => { settingsRef.current = settings; }, [settings]);
+  const onImportedRef = useRef(onImported);
+  useEffect(() => { onImportedRef.current = onImported; }, [onImported]);
+  const onLogRef = useRef(onLog);
+  useEffect(() => { onLogRef.current = onLog; }, [onLog]);
+
+  const pendingRef = useRef<{ job: ImportJob; file: File }[]>([]);
+  const currentRef = useRef<{ id: string; controller: AbortController } | null>(null);
+
+  const patch = useCallback((id: string, changes: Partial<ImportJob>) => {
+    setJobs(prev => prev.map(j => j.id === id ? { ...j, ...changes } : j));
+  }, []);
+
+  const run = useCallback(async () => {
+    if (currentRef.current) return;
+    let next;
+    while ((next = pendingRef.current.shift())) {
+      const { job, file } = next;
+      const controller = new AbortController();
+      currentRef.current = { id: job.id, controller };
+      onLogRef.current?.(`Importing ${file.name}...`);
+      try {
+        const { session, recordings } = await importAudioFile(file, settingsRef.current, {
+          signal: controller.signal,
+          onProgress: ({ phase, progress }: ImportProgress) => patch(job.id, { state: phase, progress })
+        });
+        if (recordings.length > 0) onImportedRef.current(session, recordings);
+        patch(job.id, { state: 'done', progress: 1, segments: recordings.length });
+        onLogRef.current?.(recordings.length > 0 ? `Imported ${recordings.length} Segments` : `No Speech Found`);
+      } catch (err) {
+        if (controller.signal.aborted) {
+          patch(job.id, { state: 'cancelled' });
+        } else {
+          const error = err instanceof Error ? err.message : String(err);
+          patch(job.id, { state: 'failed', error });
+          onLogRef.current?.(`Import Error: ${error}`);
+        }
+      } finally {
+        currentRef.current = null;
+      }
+    }
+  }, [patch]);
+
+  const importFiles = useCallback((files: Iterable<File>) => {
+    const added = Array.from(files)
+      .filter(file => file.type.startsWith('audio/') || file.type.startsWith('video/') || !file.type)
+      .map(file => ({
+        file,
+        job: { id: Math.random().toString(36).substring(2, 11), fileName: file.name, state: 'queued' as const, progress: 0 }
+      }));
+    if (added.length === 0) return;
+    pendingRef.current.push(...added);
+    setJobs(prev => [...added.map(a => a.job), ...prev]);
+    run();
+  }, [run]);
+
+  const cancel = useCallback((id: string) => {
+    if (currentRef.current?.id === id) {
+      currentRef.current.controller.abort();
+    } else {
+      pendingRef.current = pendingRef.current.filter(p => p.job.id !== id);
+      patch(id, { state: 'cancelled' });
+    }
+  }, [patch]);
+
+  // Finished jobs only linger until the list is cleared.
+  const clearFinished = useCallback(() => {
+    setJobs(prev => prev.filter(isJobRunning));
+  }, []);
+
+  return {
+    jobs,
+    importFiles,
+    cancel,
+    clearFinished
+  };
+}
@@ -0,0 +1,23 @@
+import { useEffect, useRef } from 'react';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+
+/** Calls `onIdle` once nobody has touched the page for `timeoutMs`. */
+export function useInactivity(timeoutMs: number, enabled: boolean, onIdle: () => void) {
+  const onIdleRef = useRef(onIdle);
+  useEffect(() => { onIdleRef.current = onIdle; }, [onIdle]);
+
+  useEffect(() => {
+    if (!enabled || timeoutMs <= 0) return;
+    let timer = window.setTimeout(() => onIdleRef.current(), timeoutMs);
+    const reset = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(() => onIdleRef.current(), timeoutMs);
+    };
+    ACTIVITY_EVENTS.forEach(type => window.addEventListener(type, reset, { passive: true }));
+    return () => {
+      window.clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(type => window.removeEventListener(type, reset));
+    };
+  }, [timeoutMs, enabled]);
+}
@@ -0,0 +1,162 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+
+export type PlaybackState = 'queued' | 'playing' | 'done' | 'skipped' | 'error';
+
+export interface PlaybackItem {
+  id: string;
+  src: string;
+  priority: number;
+  state: PlaybackState;
+  enqueuedAt: number;
+  error?: string;
+}
+
+interface PlaybackOptions {
+  /** ms the queue still counts as active after the last item ends. */
+  tailMs: number;
+  onChange?: (item: PlaybackItem) => void;
+  /** Called once the queue has drained and the tail window has passed. */
+  onIdle?: () => void;
+}
+
+/**
+ * Plays remote audio one item at a time. Higher priorities jump ahead of
+ * lower ones; equal priorities keep arrival order. `isActive` covers the
+ * whole run plus the tail window, for suspending capture around playback.
+ */
+export function usePlaybackQueue({ tailMs, onChange, onIdle }: PlaybackOptions) {
+  const [queue, setQueue] = useState<PlaybackItem[]>([]);
+  const [isActive, setIsActive] = useState(false);
+
+  const queueRef = useRef<PlaybackItem[]>([]);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const tailTimerRef = useRef<number | null>(null);
+  const isActiveRef = useRef(false);
+  const tailMsRef = useRef(tailMs);
+  useEffect(() => { tailMsRef.current = tailMs; }, [tailMs]);
+  const onChangeRef = useRef(onChange);
+  useEffect(() => { onChangeRef.current = onChange; }, [onChange]);
+  const onIdleRef = useRef(onIdle);
+  useEffect(() => { onIdleRef.current = onIdle; }, [onIdle]);
+
+  const commit = useCallback((items: PlaybackItem[]) => {
+    queueRef.current = items;
+    setQueue(items);
+  }, []);
+
+  const activate = (active: boolean) => {
+    isActiveRef.current = active;
+    setIsActive(active);
+  };
+
+  const clearTail = () => {
+    if (tailTimerRef.current) window.clearTimeout(tailTimerRef.current);
+    tailTimerRef.current = null;
+  };
+
+  const stopAudio = () => {
+    const audio = audioRef.current;
+    audioRef.current = null;
+    if (!audio) return;
+    audio.onended = null;
+    audio.onerror = null;
+    audio.pause();
+    audio.removeAttribute('src');
+    audio.load();
+  };
+
+  // Removes an item from the queue and reports how it ended.
+  const settle = useCallback((id: string, state: PlaybackState, error?: string) => {
+    const item = queueRef.current.find(i => i.id === id);
+    if (!item) return;
+    commit(queueRef.current.filter(i => i.id !== id));
+    onChangeRef.current?.({ ...item, state, error });
+  }, [commit]);
+
+  const pump = useCallback(() => {
+    if (audioRef.current) return;
+    const next = queueRef.current.find(i => i.state === 'queued');
+    if (!next) {
+      if (isActiveRef.current && !tailTimerRef.current) {
+        tailTimerRef.current = window.setTimeout(() => {
+          tailTimerRef.current = null;
+          activate(false);
+          onIdleRef.current?.();
+        }, Math.max(0, tailMsRef.current));
+      }
+      return;
+    }
+
+    clearTail();
+    activate(true);
+    const playing = { ...next, state: 'playing' as const };
+    commit(queueRef.current.map(i => i.id === next.id ? playing : i));
+    onChangeRef.current?.(playing);
+
+    const audio = new Audio(next.src);
+    audioRef.current = audio;
+    const finish = (state: PlaybackState, error?: string) => {
+      if (audioRef.current !== audio) return;
+      stopAudio();
+      settle(next.id, state, error);
+      pump();
+    };
+    audio.onended = () => finish('done');
+    audio.onerror = () => finish('error', audio.error?.message || 'Playback failed');
+    audio.play().catch(e => finish('error', e instanceof Error ? e.message : String(e)));
+  }, [commit, settle]);
+
+  const enqueue = useCallback((src: string, options: { id?: string; priority?: number } = {}) => {
+    const item: PlaybackItem = {
+      id: options.id ?? Math.random().toString(36).substring(2, 11),
+      src,
+      priority: options.priority ?? 0,
+      state: 'queued',
+      enqueuedAt: Date.now()
+    };
+    const items = queueRef.current;
+    const index = items.findIndex(i => i.state === 'queued' && i.priority < item.priority);
+    commit(index === -1 ? [...items, item] : [...items.slice(0, index), item, ...items.slice(index)]);
+    onChangeRef.current?.(item);
+    clearTail();
+    activate(true);
+    pump();
+    return item.id;
+  }, [commit, pump]);
+
+  /** Removes a queued item, or stops it if it is the one playing. */
+  const cancel = useCallback((id: string) => {
+    const item = queueRef.current.find(i => i.id === id);
+    if (!item) return false;
+    if (item.state === 'playing') stopAudio();
+    settle(id, 'skipped');
+    pump();
+    return true;
+  }, [settle, pump]);
+
+  const skip = useCallback(() => {
+    const playing = queueRef.current.find(i => i.state === 'playing');
+    return playing ? cancel(playing.id) : false;
+  }, [cancel]);
+
+  const clear = useCallback(() => {
+    stopAudio();
+    queueRef.current.forEach(i => settle(i.id, 'skipped'));
+    pump();
+  }, [settle, pump]);
+
+  useEffect(() => () => {
+    stopAudio();
+    clearTail();
+  }, []);
+
+  return {
+    queue,
+    isActive,
+    isPlaying: queue.some(i => i.state === 'playing'),
+    enqueue,
+    cancel,
+    skip,
+    clear
+  };
+}
@@ -0,0 +1,90 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { DeliveryRecord, Recording, RetentionSettings } from '../types';
+import {
+  QUOTA_WARNING_RATIO,
+  StorageStatus,
+  estimateStorage,
+  requestPersistentStorage,
+  selectExpired
+} from '../services/retention';
+
+// Age limits are re-checked this often even when nothing changes.
+const SWEEP_INTERVAL_MS = 15 * 60 * 1000;
+
+interface RetentionOptions {
+  recordings: Recording[];
+  deliveries: Record<string, DeliveryRecord>;
+  /** Archive and outbox are both loaded; until then nothing is removed. */
+  isLoaded: boolean;
+  /** A webhook is set up, so only delivered recordings may be removed. */
+  isForwarding: boolean;
+  settings: RetentionSettings;
+  onExpire: (ids: string[]) => void;
+  onLog?: (message: string) => void;
+}
+
+/**
+ * Applies the retention policy to the archive and keeps an eye on the
+ * origin's storage quota.
+ */
+export function useRetention({ recordings, deliveries, isLoaded, isForwarding, settings, onExpire, onLog }: RetentionOptions) {
+  const [storage, setStorage] = useState<StorageStatus | null>(null);
+
+  const recordingsRef = useRef(recordings);
+  useEffect(() => { recordingsRef.current = recordings; }, [recordings]);
+  const deliveriesRef = useRef(deliveries);
+  useEffect(() => { deliveriesRef.current = deliveries; }, [deliveries]);
+  const onExpireRef = useRef(onExpire);
+  useEffect(() => { onExpireRef.current = onExpire; }, [onExpire]);
+  const onLogRef = useRef(onLog);
+  useEffect(() => { onLogRef.current = onLog; }, [onLog]);
+
+  const refresh = useCallback(() => {
+    estimateStorage()
+      .then(setStorage)
+      .catch(e => console.warn("Storage estimate failed:", e));
+  }, []);
+
+  const requestPersistence = useCallback(async () => {
+    const granted = await requestPersistentStorage().catch(() => false);
+    refresh();
+    return granted;
+  }, [refresh]);
+
+  useEffect(() => {
+    requestPersistence();
+  }, [requestPersistence]);
+
+  const sweep = useCallback(() => {
+    const expired = selectExpired(recordingsRef.current, deliveriesRef.current, settings, isForwarding);
+    if (expired.length === 0) return;
+    onExpireRef.current(expired);
+    onLogRef.current?.(`Retention: Removed ${expired.length}`);
+  }, [settings, isForwarding]);
+
+  // Deliveries are in the list because a recording becomes removable the
+  // moment its upload succeeds. A recording the outbox has not queued yet
+  // counts as undelivered, so there is nothing to wait for.
+  useEffect(() => {
+    if (isLoaded) sweep();
+  }, [recordings, deliveries, isLoaded, sweep]);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    const timer = window.setInterval(sweep, SWEEP_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [isLoaded, sweep]);
+
+  // Archive writes land shortly after the state changes.
+  useEffect(() => {
+    if (!isLoaded) return;
+    const timer = window.setTimeout(refresh, 1000);
+    return () => window.clearTimeout(timer);
+  }, [recordings, isLoaded, refresh]);
+
+  return {
+    storage,
+    isNearQuota: !!storage && storage.usage >= storage.quota * QUOTA_WARNING_RATIO,
+    requestPersistence
+  };
+}
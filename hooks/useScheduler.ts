@@ -0,0 +1,64 @@
+import { useState, useEffect, useRef } from 'react';
+import { ScheduleSettings } from '../types';
+import { ScheduleTransition, isScheduled, nextTransition } from '../services/schedule';
+
+// The schedule is re-read at least this often, which also catches clock and
+// time zone changes the timer aimed at the next boundary would miss.
+const CHECK_INTERVAL_MS = 30_000;
+
+interface SchedulerOptions {
+  schedule: ScheduleSettings;
+  /** Nothing happens before the system has been brought online. */
+  isReady: boolean;
+  onStart: () => void;
+  onStop: () => void;
+}
+
+/**
+ * Starts and stops listening at the schedule's boundaries. It only acts when
+ * the schedule's answer changes (and once when it comes online), so starting
+ * or stopping by hand holds until the next boundary.
+ */
+export function useScheduler({ schedule, isReady, onStart, onStop }: SchedulerOptions) {
+  const [active, setActive] = useState<boolean | null>(null);
+  const [next, setNext] = useState<ScheduleTransition | null>(null);
+
+  const onStartRef = useRef(onStart);
+  useEffect(() => { onStartRef.current = onStart; }, [onStart]);
+  const onStopRef = useRef(onStop);
+  useEffect(() => { onStopRef.current = onStop; }, [onStop]);
+
+  // undefined until the first check after the schedule was (re)applied.
+  const lastRef = useRef<boolean | null | undefined>(undefined);
+
+  useEffect(() => {
+    lastRef.current = undefined;
+    if (!isReady || !schedule.enabled) {
+      setActive(null);
+      setNext(null);
+      return;
+    }
+
+    let upcoming: ScheduleTransition | null = null;
+    let timer: number | null = null;
+    const check = () => {
+      const now = Date.now();
+      const current = isScheduled(schedule, now);
+      if (current !== lastRef.current) {
+        lastRef.current = current;
+        if (current === true) onStartRef.current();
+        else if (current === false) onStopRef.current();
+      }
+      if (!upcoming || now >= upcoming.at) upcoming = nextTransition(schedule, now);
+      setActive(current);
+      setNext(upcoming);
+
+      const untilNext = upcoming ? upcoming.at - now : Infinity;
+      timer = window.setTimeout(check, Math.max(1000, Math.min(untilNext, CHECK_INTERVAL_MS)));
+    };
+    check();
+    return () => { if (timer) window.clearTimeout(timer); };
+  }, [schedule, isReady]);
+
+  return { active, next };
+}
@@ -0,0 +1,84 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { ArchiveChange, RecorderSnapshot, electLeader, onTabMessage, postTabMessage } from '../services/tabSync';
+
+interface TabLeaderOptions {
+  /** This tab took over; `previous` is the last state the old leader sent. */
+  onElected?: (previous: RecorderSnapshot | null) => void;
+  onArchiveChange?: (change: ArchiveChange) => void;
+}
+
+/**
+ * Elects one tab to own the microphone, trigger feed and outbox. The others
+ * follow: they mirror the leader's recorder and read back its archive writes.
+ */
+export function useTabLeader({ onElected, onArchiveChange }: TabLeaderOptions = {}) {
+  const [isLeader, setIsLeader] = useState(false);
+  const [mirror, setMirror] = useState<RecorderSnapshot | null>(null);
+
+  const onElectedRef = useRef(onElected);
+  useEffect(() => { onElectedRef.current = onElected; }, [onElected]);
+  const onArchiveChangeRef = useRef(onArchiveChange);
+  useEffect(() => { onArchiveChangeRef.current = onArchiveChange; }, [onArchiveChange]);
+
+  const isLeaderRef = useRef(false);
+  const mirrorRef = useRef<RecorderSnapshot | null>(null);
+  const snapshotRef = useRef<RecorderSnapshot | null>(null);
+
+  useEffect(() => {
+    const offMessages = onTabMessage(message => {
+      switch (message.type) {
+        case 'recorder':
+          if (isLeaderRef.current) return;
+          mirrorRef.current = message.snapshot;
+          setMirror(message.snapshot);
+          return;
+        case 'snapshot-request':
+          if (isLeaderRef.current && snapshotRef.current) {
+            postTabMessage({ type: 'recorder', snapshot: snapshotRef.current });
+          }
+          return;
+        case 'archive':
+          onArchiveChangeRef.current?.(message.change);
+          return;
+      }
+    });
+    postTabMessage({ type: 'snapshot-request' });
+
+    const resign = electLeader(() => {
+      isLeaderRef.current = true;
+      setIsLeader(true);
+    });
+    return () => {
+      offMessages();
+      resign();
+      isLeaderRef.current = false;
+      setIsLeader(false);
+    };
+  }, []);
+
+  // Once this tab renders as leader, so it is allowed to capture.
+  useEffect(() => {
+    if (!isLeader) return;
+    onElectedRef.current?.(mirrorRef.current);
+    mirrorRef.current = null;
+    setMirror(null);
+    if (snapshotRef.current) postTabMessage({ type: 'recorder', snapshot: snapshotRef.current });
+  }, [isLeader]);
+
+  /** The leader's recorder state, sent to followers as it changes. */
+  const publish = useCallback((snapshot: RecorderSnapshot) => {
+    snapshotRef.current = snapshot;
+    if (isLeaderRef.current) postTabMessage({ type: 'recorder', snapshot });
+  }, []);
+
+  const announceArchive = useCallback((change: ArchiveChange) => {
+    postTabMessage({ type: 'archive', change });
+  }, []);
+
+  return {
+    isLeader,
+    mirror,
+    publish,
+    announceArchive
+  };
+}
@@ -0,0 +1,109 @@
+import { useEffect, useRef, useCallback, Dispatch, SetStateAction } from 'react';
+import { ProcessingSettings, ProcessingState, Recording } from '../types';
+import { createSummarizer, createTranscriber } from '../services/transcription';
+
+interface TranscriptionOptions {
+  recordings: Recording[];
+  isArchiveLoaded: boolean;
+  settings: ProcessingSettings;
+  setRecordings: Dispatch<SetStateAction<Recording[]>>;
+  /** Queued work is only picked up while true, so one tab transcribes. */
+  isActive?: boolean;
+  onLog?: (message: string) => void;
+}
+
+/**
+ * Transcribes and summarises recordings one at a time. The queue lives on the
+ * recordings themselves (`processing.state`), so it survives reloads along
+ * with the archive.
+ */
+export function useTranscription({ recordings, isArchiveLoaded, settings, setRecordings, isActive = true, onLog }: TranscriptionOptions) {
+  const recordingsRef = useRef(recordings);
+  useEffect(() => { recordingsRef.current = recordings; }, [recordings]);
+  const settingsRef = useRef(settings);
+  useEffect(() => { settingsRef.current = settings; }, [settings]);
+  const onLogRef = useRef(onLog);
+  useEffect(() => { onLogRef.current = onLog; }, [onLog]);
+
+  const seenIdsRef = useRef<Set<string> | null>(null);
+  const isRunningRef = useRef(false);
+
+  const patch = useCallback((id: string, changes: Partial<Recording>) => {
+    setRecordings(prev => prev.map(r => r.id === id ? { ...r, ...changes } : r));
+  }, [setRecordings]);
+
+  const mark = useCallback((id: string, state: ProcessingState, error?: string) => {
+    patch(id, { processing: { state, error, updatedAt: Date.now() } });
+  }, [patch]);
+
+  const run = useCallback(async () => {
+    if (isRunningRef.current) return;
+    isRunningRef.current = true;
+    // recordingsRef lags a render behind our own updates; remember what
+    // this pass already handled so it is not picked up twice.
+    const handled = new Set<string>();
+    try {
+      while (true) {
+        const transcriber = createTranscriber(settingsRef.current);
+        if (!transcriber) break;
+        const next = recordingsRef.current
+          .filter(r => r.processing?.state === 'queued' && !handled.has(r.id))
+          .sort((a, b) => a.timestamp - b.timestamp)[0];
+        if (!next) break;
+        handled.add(next.id);
+
+        mark(next.id, 'running');
+        onLogRef.current?.(`Transcribing...`);
+        try {
+          const transcription = await transcriber.transcribe(next);
+          const summarizer = createSummarizer(settingsRef.current);
+          const summary = summarizer && transcription ? await summarizer.summarize(transcription) : undefined;
+          patch(next.id, {
+            transcription,
+            ...(summary !== undefined && { summary }),
+            processing: { state: 'done', updatedAt: Date.now() }
+          });
+          onLogRef.current?.(`Transcript Ready`);
+        } catch (err) {
+          const error = err instanceof Error ? err.message : String(err);
+          mark(next.id, 'failed', error);
+          onLogRef.current?.(`Transcription Error: ${error}`);
+        }
+      }
+    } finally {
+      isRunningRef.current = false;
+    }
+  }, [mark, patch]);
+
+  // New captures are queued when a provider is set up; parts split off a
+  // recording are left to be transcribed by hand, like the edited part they
+  // came from. Work interrupted by a reload is queued again.
+  useEffect(() => {
+    if (!isArchiveLoaded || !isActive) return;
+    if (!seenIdsRef.current) {
+      seenIdsRef.current = new Set(recordings.map(r => r.id));
+      recordings
+        .filter(r => r.processing?.state === 'running')
+        .forEach(r => mark(r.id, 'queued'));
+    } else {
+      const seen = seenIdsRef.current;
+      recordings.forEach(r => {
+        if (seen.has(r.id)) return;
+        seen.add(r.id);
+        if (!r.processing && !r.splitFrom && settingsRef.current.transcriptionProvider !== 'none') mark(r.id, 'queued');
+      });
+    }
+    if (recordings.some(r => r.processing?.state === 'queued')) run();
+  }, [recordings, isArchiveLoaded, isActive, mark, run]);
+
+  useEffect(() => {
+    if (isActive && settings.transcriptionProvider !== 'none') run();
+  }, [settings.transcriptionProvider, isActive, run]);
+
+  const transcribe = useCallback((id: string) => {
+    if (recordingsRef.current.find(r => r.id === id)?.processing?.state === 'running') return;
+    mark(id, 'queued');
+  }, [mark]);
+
+  return { transcribe };
+}
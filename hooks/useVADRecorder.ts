@@ -1,209 +1,275 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
-import { RecorderStatus, AudioSettings, Recording } from '../types';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { RecorderStatus, AudioSettings, Recording, Session } from '../types';
+import { loadRecording, loadRecordings, saveRecording, removeRecording } from '../services/archiveDB';
+import { loadSessions, saveSession, removeSession } from '../services/sessions';
+import { expectedThresholdDb, toDisplayLevel } from '../services/voiceDetector';
+import { SegmentStream, StreamSegment } from '../services/segmentStream';
+import { VoiceFlowRecorder } from '../services/voiceFlowRecorder';
+import { MonitorMode } from '../services/signalChain';
+import { normalizeRecording } from '../services/audioEdit';
+import { ArchiveChange, RecorderSnapshot } from '../services/tabSync';
 
-export function useVADRecorder(settings: AudioSettings) {
-  const [status, setStatus] = useState<RecorderStatus>(RecorderStatus.IDLE);
+interface RecorderOptions {
+  /** Called as each segment opens; a stream returned receives its audio live. */
+  openStream?: (segment: StreamSegment) => SegmentStream | null;
+  /** The archive cannot be read or written; nothing is loaded or captured. */
+  isArchiveLocked?: boolean;
+  /** Another tab owns the microphone; this one shows `mirror` instead. */
+  isFollower?: boolean;
+  mirror?: RecorderSnapshot | null;
+  /** Called once this tab's archive writes have landed. */
+  onArchiveWrite?: (change: ArchiveChange) => void;
+}
+
+/**
+ * React binding for VoiceFlowRecorder: mirrors its events into state and
+ * keeps the archive and sessions persisted in IndexedDB.
+ */
+export function useVADRecorder(settings: AudioSettings, options: RecorderOptions = {}) {
+  const optionsRef = useRef(options);
+  useEffect(() => { optionsRef.current = options; });
+
+  // Segments whose audio went out as it was captured; see `receive`.
+  const streamedRef = useRef(new Set<string>());
+
+  const [engine] = useState(() => new VoiceFlowRecorder(settings, {
+    openStream: (segment) => {
+      const stream = optionsRef.current.openStream?.(segment) ?? null;
+      if (stream) streamedRef.current.add(segment.id);
+      return stream;
+    }
+  }));
+
+  const [status, setStatus] = useState<RecorderStatus>(engine.status);
   const [recordings, setRecordings] = useState<Recording[]>([]);
   const [currentVolume, setCurrentVolume] = useState(0);
+  const [voiceThreshold, setVoiceThreshold] = useState(() => toDisplayLevel(expectedThresholdDb(settings)));
+  const [isCalibrating, setIsCalibrating] = useState(false);
   const [silenceProgress, setSilenceProgress] = useState(0); 
   const [recordingDuration, setRecordingDuration] = useState(0);
   const [isContinuous, setIsContinuous] = useState(false);
-  
+  const [isArchiveLoaded, setIsArchiveLoaded] = useState(false);
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [monitorMode, setMonitorMode] = useState<MonitorMode>('off');
+
   const settingsRef = useRef(settings);
-  useEffect(() => { settingsRef.current = settings; }, [settings]);
-
-  const statusRef = useRef(status);
-  useEffect(() => { statusRef.current = status; }, [status]);
-
-  const isContinuousRef = useRef(isContinuous);
-  useEffect(() => { isContinuousRef.current = isContinuous; }, [isContinuous]);
-
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const chunksRef = useRef<Blob[]>([]);
-  const streamRef = useRef<MediaStream | null>(null);
-  
-  const silenceTimerRef = useRef<number | null>(null);
-  const silenceTimerStartRef = useRef<number | null>(null);
-  const recordingStartTimeRef = useRef<number | null>(null);
-  const isVoiceActiveRef = useRef(false);
-  const animationFrameRef = useRef<number | null>(null);
-
-  const shutdown = useCallback(() => {
-    if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
-    if (silenceTimerRef.current) window.clearTimeout(silenceTimerRef.current);
-    
-    if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
-      try { mediaRecorderRef.current.stop(); } catch(e) {}
-    }
+  useEffect(() => {
+    settingsRef.current = settings;
+    engine.configure(settings);
+    // Nothing measures while idle, so show where the detector would open.
+    if (engine.status === RecorderStatus.IDLE) setVoiceThreshold(toDisplayLevel(expectedThresholdDb(settings)));
+  }, [engine, settings]);
+
+  // Snapshot of what the archive last held, used to diff state changes into
+  // IndexedDB writes so every setRecordings caller stays persisted.
+  const persistedRef = useRef<Map<string, Recording>>(new Map());
 
-    streamRef.current?.getTracks().forEach(t => t.stop());
-    audioContextRef.current?.close().catch(() => {});
-    
-    setStatus(RecorderStatus.IDLE);
-    setCurrentVolume(0);
-    setSilenceProgress(0);
-    setRecordingDuration(0);
-    isVoiceActiveRef.current = false;
-    silenceTimerStartRef.current = null;
-    recordingStartTimeRef.current = null;
-    silenceTimerRef.current = null;
-    analyserRef.current = null;
-    streamRef.current = null;
-    audioContextRef.current = null;
-    chunksRef.current = [];
+  const storeSession = useCallback((session: Session) => {
+    setSessions(prev => [session, ...prev.filter(s => s.id !== session.id)]);
+    saveSession(session)
+      .then(() => optionsRef.current.onArchiveWrite?.({ saved: [], removed: [], sessions: [session] }))
+      .catch(e => console.error("Session write failed:", e));
   }, []);
 
-  const startMediaRecorder = useCallback(() => {
-    if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'inactive') {
-      try {
-        chunksRef.current = [];
-        mediaRecorderRef.current.start();
-        recordingStartTimeRef.current = Date.now();
-        setRecordingDuration(0);
-        setStatus(RecorderStatus.RECORDING);
-      } catch (e) {
-        console.error("VAD Start Error:", e);
-      }
-    }
+  // Takes are normalised before they are stored, and with them queued for
+  // forwarding, one at a time so they still arrive in order. Streamed takes
+  // already left as captured and carry the gain they need instead.
+  const arrivalsRef = useRef<Promise<void>>(Promise.resolve());
+  const receive = useCallback((recording: Recording) => {
+    const streamed = streamedRef.current.delete(recording.id);
+    const target = settingsRef.current.normalizeTarget;
+    arrivalsRef.current = arrivalsRef.current
+      .then(() => streamed || target === 0 ? recording : normalizeRecording(recording, target).catch(e => {
+        console.error("Normalisation failed:", e);
+        return recording;
+      }))
+      .then(received => {
+        if (received.url !== recording.url) URL.revokeObjectURL(recording.url);
+        setRecordings(prev => [received, ...prev]);
+      });
   }, []);
 
-  const stopMediaRecorder = useCallback(() => {
-    if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
-      try {
-        mediaRecorderRef.current.stop();
-        if (isContinuousRef.current) {
-          setStatus(RecorderStatus.LISTENING);
-          setSilenceProgress(0);
-          silenceTimerStartRef.current = null;
-          isVoiceActiveRef.current = false;
-          if (silenceTimerRef.current) {
-            window.clearTimeout(silenceTimerRef.current);
-            silenceTimerRef.current = null;
-          }
-        } else {
-          shutdown();
+  useEffect(() => {
+    const unsubscribe = [
+      engine.on('status', next => {
+        setStatus(next);
+        if (next !== RecorderStatus.RECORDING) setSilenceProgress(0);
+        if (next === RecorderStatus.IDLE) {
+          setCurrentVolume(0);
+          setVoiceThreshold(toDisplayLevel(expectedThresholdDb(settingsRef.current)));
+          setIsCalibrating(false);
+          setRecordingDuration(0);
         }
-      } catch (e) {
-        shutdown();
-      }
-    } else {
-      shutdown();
-    }
-  }, [shutdown]);
-
-  const analyze = useCallback(() => {
-    if (!analyserRef.current) return;
-    
-    const dataArray = new Uint8Array(analyserRef.current.frequencyBinCount);
-    analyserRef.current.getByteFrequencyData(dataArray);
-    
-    let sum = 0;
-    for (let i = 0; i < dataArray.length; i++) { sum += dataArray[i]; }
-    const average = sum / dataArray.length;
-    setCurrentVolume(average);
-
-    const threshold = settingsRef.current.sensitivity * 2.5;
-    
-    if (recordingStartTimeRef.current && statusRef.current === RecorderStatus.RECORDING) {
-      setRecordingDuration((Date.now() - recordingStartTimeRef.current) / 1000);
-    }
+      }),
+      engine.on('level', ({ level, threshold, calibrating, silenceProgress }) => {
+        setCurrentVolume(toDisplayLevel(level));
+        setVoiceThreshold(toDisplayLevel(threshold));
+        setIsCalibrating(calibrating);
+        setSilenceProgress(silenceProgress);
+      }),
+      engine.on('duration', setRecordingDuration),
+      engine.on('recording', receive),
+      engine.on('session', storeSession),
+      engine.on('error', e => console.error("Recorder error:", e))
+    ];
+    return () => unsubscribe.forEach(off => off());
+  }, [engine, storeSession, receive]);
 
-    if (average > threshold) {
-      if (!isVoiceActiveRef.current) {
-        isVoiceActiveRef.current = true;
-        if (statusRef.current === RecorderStatus.LISTENING) {
-          startMediaRecorder();
-        }
-      }
-      
-      if (silenceTimerRef.current) {
-        window.clearTimeout(silenceTimerRef.current);
-        silenceTimerRef.current = null;
-      }
-      silenceTimerStartRef.current = null;
-      setSilenceProgress(0);
-    } else {
-      if (isVoiceActiveRef.current && statusRef.current === RecorderStatus.RECORDING) {
-        if (!silenceTimerRef.current) {
-          silenceTimerStartRef.current = Date.now();
-          silenceTimerRef.current = window.setTimeout(() => {
-            stopMediaRecorder();
-          }, settingsRef.current.silenceTimeout);
+  const isArchiveLocked = options.isArchiveLocked ?? false;
+  // New segments could not be stored while locked, and a follower would
+  // record the same room twice.
+  const canCaptureRef = useRef(true);
+  canCaptureRef.current = !isArchiveLocked && !options.isFollower;
+
+  useEffect(() => {
+    if (isArchiveLocked) {
+      // Locking drops the decrypted archive from memory; IndexedDB keeps it.
+      setIsArchiveLoaded(false);
+      persistedRef.current = new Map();
+      setRecordings(prev => {
+        prev.forEach(r => URL.revokeObjectURL(r.url));
+        return [];
+      });
+      setSessions([]);
+      return;
+    }
+    let cancelled = false;
+    Promise.all([loadRecordings(), loadSessions()])
+      .then(([stored, storedSessions]) => {
+        if (cancelled) {
+          stored.forEach(r => URL.revokeObjectURL(r.url));
+          return;
         }
-      }
+        stored.forEach(r => persistedRef.current.set(r.id, r));
+        setRecordings(prev => {
+          const known = new Set(prev.map(r => r.id));
+          return [...prev, ...stored.filter(r => !known.has(r.id))]
+            .sort((a, b) => b.timestamp - a.timestamp);
+        });
 
-      if (silenceTimerStartRef.current && statusRef.current === RecorderStatus.RECORDING) {
-        const elapsed = Date.now() - silenceTimerStartRef.current;
-        const progress = Math.min(elapsed / settingsRef.current.silenceTimeout, 1);
-        setSilenceProgress(progress);
-      } else {
-        setSilenceProgress(0);
+        // Sessions left empty are dropped; ones cut short by a closed tab
+        // end with their last segment.
+        const kept: Session[] = [];
+        storedSessions.forEach(session => {
+          const segments = stored.filter(r => r.sessionId === session.id);
+          if (segments.length === 0) {
+            removeSession(session.id).catch(e => console.error("Session delete failed:", e));
+          } else if (session.endedAt === undefined) {
+            const ended = { ...session, endedAt: Math.max(...segments.map(r => r.timestamp)) };
+            saveSession(ended).catch(e => console.error("Session write failed:", e));
+            kept.push(ended);
+          } else {
+            kept.push(session);
+          }
+        });
+        setSessions(prev => [...prev, ...kept].sort((a, b) => b.startedAt - a.startedAt));
+      })
+      .catch(e => console.error("Archive load failed:", e))
+      .finally(() => { if (!cancelled) setIsArchiveLoaded(true); });
+    return () => { cancelled = true; };
+  }, [isArchiveLocked]);
+
+  useEffect(() => {
+    if (!isArchiveLoaded) return;
+    const previous = persistedRef.current;
+    const next = new Map(recordings.map(r => [r.id, r]));
+    const writes: Promise<void>[] = [];
+    const saved: string[] = [];
+    const removed: string[] = [];
+    recordings.forEach(r => {
+      if (previous.get(r.id) !== r) {
+        saved.push(r.id);
+        writes.push(saveRecording(r).catch(e => console.error("Archive write failed:", e)));
+      }
+    });
+    previous.forEach((_, id) => {
+      if (!next.has(id)) {
+        removed.push(id);
+        writes.push(removeRecording(id).catch(e => console.error("Archive delete failed:", e)));
       }
+    });
+    persistedRef.current = next;
+    if (writes.length > 0) {
+      Promise.all(writes).then(() => optionsRef.current.onArchiveWrite?.({ saved, removed, sessions: [] }));
     }
+  }, [recordings, isArchiveLoaded]);
 
-    animationFrameRef.current = requestAnimationFrame(analyze);
-  }, [startMediaRecorder, stopMediaRecorder]);
-
-  const initAudio = useCallback(async () => {
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      streamRef.current = stream;
-      
-      const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-      if (audioContext.state === 'suspended') await audioContext.resume();
-      
-      const source = audioContext.createMediaStreamSource(stream);
-      const analyser = audioContext.createAnalyser();
-      analyser.fftSize = 256;
-      source.connect(analyser);
-      
-      audioContextRef.current = audioContext;
-      analyserRef.current = analyser;
-
-      const mediaRecorder = new MediaRecorder(stream, { mimeType: 'audio/webm' });
-      mediaRecorder.ondataavailable = (e) => {
-        if (e.data.size > 0) chunksRef.current.push(e.data);
-      };
-
-      mediaRecorder.onstop = () => {
-        if (chunksRef.current.length > 0) {
-          const blob = new Blob(chunksRef.current, { type: 'audio/webm' });
-          const url = URL.createObjectURL(blob);
-          const duration = recordingStartTimeRef.current 
-            ? (Date.now() - recordingStartTimeRef.current) / 1000 
-            : 0;
-            
-          const newRecording: Recording = {
-            id: Math.random().toString(36).substring(2, 11),
-            blob,
-            url,
-            timestamp: Date.now(),
-            duration: duration
-          };
-          setRecordings(prev => [newRecording, ...prev]);
-          chunksRef.current = [];
-        }
-      };
-
-      mediaRecorderRef.current = mediaRecorder;
-      setStatus(RecorderStatus.LISTENING);
-      analyze();
-    } catch (e) {
-      console.error("Failed to init audio:", e);
-      setStatus(RecorderStatus.ERROR);
+  const isArchiveLoadedRef = useRef(isArchiveLoaded);
+  isArchiveLoadedRef.current = isArchiveLoaded;
+
+  /**
+   * Reads back what another tab wrote. The records go into the persisted
+   * snapshot first, so taking them into state does not write them again.
+   */
+  const applyArchiveChange = useCallback(async ({ saved, removed, sessions: changedSessions }: ArchiveChange) => {
+    if (!isArchiveLoadedRef.current) return;
+    const loaded = (await Promise.all(saved.map(id => loadRecording(id).catch(e => {
+      console.error("Archive read failed:", e);
+      return undefined;
+    })))).filter((r): r is Recording => !!r);
+    const replaced = new Set([...removed, ...loaded.map(r => r.id)]);
+    removed.forEach(id => persistedRef.current.delete(id));
+    loaded.forEach(r => persistedRef.current.set(r.id, r));
+    setRecordings(prev => prev
+      .filter(r => {
+        if (!replaced.has(r.id)) return true;
+        URL.revokeObjectURL(r.url);
+        return false;
+      })
+      .concat(loaded)
+      .sort((a, b) => b.timestamp - a.timestamp));
+    if (changedSessions.length > 0) {
+      const ids = new Set(changedSessions.map(s => s.id));
+      setSessions(prev => [...changedSessions, ...prev.filter(s => !ids.has(s.id))].sort((a, b) => b.startedAt - a.startedAt));
     }
-  }, [analyze]);
+  }, []);
+
+  const isActive = status !== RecorderStatus.IDLE && status !== RecorderStatus.ERROR;
+  useEffect(() => {
+    if (!isActive || !navigator.mediaDevices) return;
+    const handleDeviceChange = () => { engine.checkInput().catch(() => {}); };
+    navigator.mediaDevices.addEventListener('devicechange', handleDeviceChange);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', handleDeviceChange);
+  }, [engine, isActive]);
+
+  const shutdown = useCallback(() => { engine.stop(); }, [engine]);
 
   const toggleListen = useCallback(async (continuous: boolean = false) => {
     setIsContinuous(continuous);
-    if (statusRef.current === RecorderStatus.IDLE || statusRef.current === RecorderStatus.ERROR) {
-      await initAudio();
+    if (engine.status === RecorderStatus.IDLE || engine.status === RecorderStatus.ERROR) {
+      if (!canCaptureRef.current) return;
+      await engine.start(continuous);
+      // A timed start records once, whatever was asked for.
+      setIsContinuous(engine.isContinuous);
     } else {
-      shutdown();
+      await engine.stop();
     }
-  }, [shutdown, initAudio]);
+  }, [engine]);
+
+  const setPaused = useCallback((paused: boolean) => engine.setPaused(paused), [engine]);
+  const suspendDetection = useCallback((suspended: boolean) => engine.suspendDetection(suspended), [engine]);
+  const recordFor = useCallback(async (seconds: number) => {
+    if (!canCaptureRef.current) return;
+    if (engine.status === RecorderStatus.IDLE || engine.status === RecorderStatus.ERROR) setIsContinuous(false);
+    await engine.recordFor(seconds);
+  }, [engine]);
+  const pushToTalk = useCallback(async (pressed: boolean) => {
+    if (pressed && !canCaptureRef.current) return;
+    if (pressed && (engine.status === RecorderStatus.IDLE || engine.status === RecorderStatus.ERROR)) setIsContinuous(true);
+    await engine.pushToTalk(pressed);
+  }, [engine]);
+  const mark = useCallback(() => engine.mark(), [engine]);
+  const monitor = useCallback((mode: MonitorMode) => {
+    setMonitorMode(mode);
+    engine.monitor(mode);
+  }, [engine]);
+  const recalibrate = useCallback(() => engine.recalibrate(), [engine]);
+
+  // Imported segments arrive oldest first; the archive lists newest first.
+  const addImported = useCallback((session: Session, imported: Recording[]) => {
+    storeSession(session);
+    setRecordings(prev => [...imported].reverse().concat(prev));
+  }, [storeSession]);
 
   const deleteRecording = useCallback((id: string) => {
     setRecordings(prev => {
@@ -213,16 +279,38 @@ export function useVADRecorder(settings: AudioSettings) {
     });
   }, []);
 
-  return {
+  const snapshot = useMemo<RecorderSnapshot>(() => ({
     status,
-    recordings,
     currentVolume,
+    voiceThreshold,
+    isCalibrating,
     silenceProgress,
     recordingDuration,
     isContinuous,
+    isPaused: status === RecorderStatus.PAUSED
+  }), [status, currentVolume, voiceThreshold, isCalibrating, silenceProgress, recordingDuration, isContinuous]);
+
+  const shown = options.isFollower && options.mirror ? options.mirror : snapshot;
+
+  return {
+    ...shown,
+    snapshot,
+    recordings,
+    isArchiveLoaded,
+    sessions,
+    applyArchiveChange,
     toggleListen,
+    setPaused,
+    suspendDetection,
+    recordFor,
+    pushToTalk,
+    mark,
+    monitorMode,
+    monitor,
+    recalibrate,
+    addImported,
     deleteRecording,
     setRecordings,
     shutdown
   };
-}
\ No newline at end of file
+}
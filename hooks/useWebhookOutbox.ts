@@ -0,0 +1,284 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { AutomationSettings, DeliveryRecord, Recording } from '../types';
+import {
+  MAX_DELIVERY_ATTEMPTS,
+  backoffDelay,
+  createDelivery,
+  loadDeliveries,
+  saveDelivery,
+  removeDelivery
+} from '../services/outbox';
+import { postRecording } from '../services/webhook';
+import { onOutboxSync, requestOutboxSync } from '../services/serviceWorker';
+
+interface OutboxOptions {
+  recordings: Recording[];
+  isArchiveLoaded: boolean;
+  automation: AutomationSettings;
+  /** The outbox is loaded and worked only while true, so one tab sends. */
+  isActive?: boolean;
+  onLog?: (message: string) => void;
+  onError?: (message: string) => void;
+}
+
+const audioKey = (recording: Recording) => `${recording.blob.size}:${recording.duration}`;
+
+export function useWebhookOutbox({ recordings, isArchiveLoaded, automation, isActive = true, onLog, onError }: OutboxOptions) {
+  const [deliveries, setDeliveries] = useState<Record<string, DeliveryRecord>>({});
+  const [isOutboxLoaded, setIsOutboxLoaded] = useState(false);
+
+  const deliveriesRef = useRef<Record<string, DeliveryRecord>>(deliveries);
+  const recordingsRef = useRef(recordings);
+  useEffect(() => { recordingsRef.current = recordings; }, [recordings]);
+  // A locked archive has no recordings in memory; that must not read as
+  // their deliveries being orphaned.
+  const isArchiveLoadedRef = useRef(isArchiveLoaded);
+  useEffect(() => { isArchiveLoadedRef.current = isArchiveLoaded; }, [isArchiveLoaded]);
+  const automationRef = useRef(automation);
+  useEffect(() => { automationRef.current = automation; }, [automation]);
+  // Online and sync events reach every tab; only the leader may send.
+  const isActiveRef = useRef(isActive);
+  useEffect(() => { isActiveRef.current = isActive; }, [isActive]);
+  const onLogRef = useRef(onLog);
+  useEffect(() => { onLogRef.current = onLog; }, [onLog]);
+  const onErrorRef = useRef(onError);
+  useEffect(() => { onErrorRef.current = onError; }, [onError]);
+
+  // The audio each known recording held when last looked at, by size and
+  // length: another tab's save hands over the same audio as a new blob.
+  const seenRef = useRef<Map<string, string> | null>(null);
+  // Recordings edited while being sent; they go out again afterwards.
+  const staleRef = useRef(new Set<string>());
+  // Captures streamed as they were recorded, by id: undefined while the
+  // stream runs, then whether the receiver got all of it.
+  const streamsRef = useRef(new Map<string, boolean | undefined>());
+  const isFlushingRef = useRef(false);
+  const retryTimerRef = useRef<number | null>(null);
+
+  const update = useCallback((delivery: DeliveryRecord) => {
+    deliveriesRef.current = { ...deliveriesRef.current, [delivery.recordingId]: delivery };
+    setDeliveries(deliveriesRef.current);
+    saveDelivery(delivery).catch(e => console.error("Outbox write failed:", e));
+  }, []);
+
+  const forget = useCallback((recordingId: string) => {
+    if (!deliveriesRef.current[recordingId]) return;
+    const { [recordingId]: _, ...rest } = deliveriesRef.current;
+    deliveriesRef.current = rest;
+    setDeliveries(rest);
+    removeDelivery(recordingId).catch(e => console.error("Outbox delete failed:", e));
+  }, []);
+
+  const flush = useCallback(async () => {
+    if (isFlushingRef.current || !isActiveRef.current) return;
+    if (retryTimerRef.current) {
+      window.clearTimeout(retryTimerRef.current);
+      retryTimerRef.current = null;
+    }
+    isFlushingRef.current = true;
+    try {
+      while (isActiveRef.current && isArchiveLoadedRef.current && automationRef.current.webhookUrl && navigator.onLine) {
+        const now = Date.now();
+        const next = Object.values<DeliveryRecord>(deliveriesRef.current)
+          .filter(d => d.state === 'pending' && d.nextAttemptAt <= now)
+          .sort((a, b) => a.createdAt - b.createdAt)[0];
+        if (!next) break;
+
+        const recording = recordingsRef.current.find(r => r.id === next.recordingId);
+        if (!recording) {
+          forget(next.recordingId);
+          continue;
+        }
+
+        update({ ...next, state: 'sending', updatedAt: now });
+        onLogRef.current?.(`Forwarding...`);
+        try {
+          await postRecording(automationRef.current, recording);
+          const now = Date.now();
+          update(staleRef.current.delete(next.recordingId)
+            ? { ...next, state: 'pending', attempts: 0, lastError: undefined, updatedAt: now, nextAttemptAt: now }
+            : { ...next, state: 'delivered', attempts: next.attempts + 1, lastError: undefined, updatedAt: now });
+          onLogRef.current?.(`Forward Complete`);
+        } catch (err) {
+          // The retry sends whatever the recording holds by then.
+          staleRef.current.delete(next.recordingId);
+          const attempts = next.attempts + 1;
+          const lastError = err instanceof Error ? err.message : String(err);
+          const failed = attempts >= MAX_DELIVERY_ATTEMPTS;
+          update({
+            ...next,
+            state: failed ? 'failed' : 'pending',
+            attempts,
+            lastError,
+            updatedAt: Date.now(),
+            nextAttemptAt: Date.now() + backoffDelay(attempts)
+          });
+          onLogRef.current?.(failed ? `Forward Failed` : `Forward Error: ${lastError}`);
+          onErrorRef.current?.(`Forward ${next.recordingId}: ${lastError}`);
+        }
+      }
+    } finally {
+      isFlushingRef.current = false;
+    }
+
+    const upcoming = Object.values<DeliveryRecord>(deliveriesRef.current)
+      .filter(d => d.state === 'pending')
+      .reduce((min, d) => Math.min(min, d.nextAttemptAt), Infinity);
+    if (upcoming !== Infinity && navigator.onLine) {
+      retryTimerRef.current = window.setTimeout(() => { flush(); }, Math.max(0, upcoming - Date.now()));
+    } else if (upcoming !== Infinity) {
+      requestOutboxSync().catch(e => console.warn("Background sync unavailable:", e));
+    }
+  }, [update, forget]);
+
+  // Read afresh on activation: the tab that sent until now moved it on.
+  useEffect(() => {
+    if (!isActive) return;
+    let cancelled = false;
+    loadDeliveries()
+      .then(stored => {
+        if (cancelled) return;
+        deliveriesRef.current = Object.fromEntries(stored.map(d => [d.recordingId, d]));
+        setDeliveries(deliveriesRef.current);
+      })
+      .catch(e => console.error("Outbox load failed:", e))
+      .finally(() => { if (!cancelled) setIsOutboxLoaded(true); });
+    return () => { cancelled = true; };
+  }, [isActive]);
+
+  // A stream that ran past its recording's arrival settles the delivery it
+  // stands in for; one that failed leaves the recording to be sent whole.
+  const settleStream = useCallback((recordingId: string, delivered: boolean) => {
+    const existing = deliveriesRef.current[recordingId];
+    if (existing?.state !== 'sending') {
+      if (streamsRef.current.has(recordingId)) streamsRef.current.set(recordingId, delivered);
+      return;
+    }
+    streamsRef.current.delete(recordingId);
+    const stale = staleRef.current.delete(recordingId);
+    const now = Date.now();
+    if (delivered && !stale) {
+      update({ ...existing, state: 'delivered', attempts: 1, updatedAt: now });
+      return;
+    }
+    update({ ...existing, state: 'pending', lastError: delivered ? undefined : 'Stream incomplete', updatedAt: now, nextAttemptAt: now });
+    flush();
+  }, [update, flush]);
+
+  const trackStream = useCallback((recordingId: string, delivered: Promise<boolean>) => {
+    if (!automationRef.current.webhookUrl) return;
+    streamsRef.current.set(recordingId, undefined);
+    // A stream that broke without saying so counts as not delivered.
+    delivered
+      .catch(() => false)
+      .then(ok => settleStream(recordingId, ok));
+  }, [settleStream]);
+
+  // Returns whether the recording now waits to be sent; one being sent goes
+  // out again once that send ends.
+  const requeue = useCallback((recordingId: string) => {
+    const existing = deliveriesRef.current[recordingId];
+    if (!existing || !automationRef.current.webhookUrl) return false;
+    if (existing.state === 'sending') {
+      staleRef.current.add(recordingId);
+      return false;
+    }
+    const now = Date.now();
+    update({ ...existing, state: 'pending', attempts: 0, lastError: undefined, updatedAt: now, nextAttemptAt: now });
+    return true;
+  }, [update]);
+
+  // Only recordings captured from now on are queued automatically; the
+  // archive loaded at startup is left alone unless resent by hand. Captures
+  // being streamed are marked as sending until their stream settles; any that
+  // were not streamed, or whose stream failed, are sent as usual. A forwarded
+  // recording whose audio is trimmed or split is sent again, and the part
+  // split off it follows.
+  useEffect(() => {
+    if (!isArchiveLoaded || !isOutboxLoaded) return;
+    if (!seenRef.current) {
+      seenRef.current = new Map(recordings.map(r => [r.id, audioKey(r)]));
+      flush();
+      return;
+    }
+    const seen = seenRef.current;
+    let queued = false;
+    recordings.forEach(r => {
+      const previous = seen.get(r.id);
+      seen.set(r.id, audioKey(r));
+      if (previous) {
+        if (previous !== audioKey(r)) queued = requeue(r.id) || queued;
+        return;
+      }
+      if (!automationRef.current.webhookUrl || deliveriesRef.current[r.id]) return;
+      if (r.splitFrom && !deliveriesRef.current[r.splitFrom]) return;
+      const streams = streamsRef.current;
+      const streamed = streams.get(r.id);
+      if (!streams.has(r.id) || streamed === false) {
+        streams.delete(r.id);
+        update(createDelivery(r.id));
+        queued = true;
+      } else if (streamed === true) {
+        streams.delete(r.id);
+        update({ ...createDelivery(r.id), state: 'delivered', attempts: 1 });
+      } else {
+        update({ ...createDelivery(r.id), state: 'sending' });
+      }
+    });
+    const present = new Set(recordings.map(r => r.id));
+    Object.keys(deliveriesRef.current).forEach(id => {
+      if (!present.has(id)) forget(id);
+    });
+    seen.forEach((_, id) => {
+      if (!present.has(id)) seen.delete(id);
+    });
+    if (queued) flush();
+  }, [recordings, isArchiveLoaded, isOutboxLoaded, update, forget, requeue, flush]);
+
+  useEffect(() => {
+    const handleOnline = () => { flush(); };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [flush]);
+
+  useEffect(() => {
+    if (!isActive) return;
+    return onOutboxSync(async () => {
+      await flush();
+      return !Object.values<DeliveryRecord>(deliveriesRef.current).some(d => d.state === 'pending');
+    });
+  }, [isActive, flush]);
+
+  useEffect(() => {
+    if (automation.webhookUrl && isOutboxLoaded) flush();
+  }, [automation.webhookUrl, isOutboxLoaded, flush]);
+
+  // A tab that hands over leadership leaves its retries to the next leader.
+  useEffect(() => {
+    if (isActive) return;
+    if (retryTimerRef.current) window.clearTimeout(retryTimerRef.current);
+    retryTimerRef.current = null;
+  }, [isActive]);
+
+  useEffect(() => () => {
+    if (retryTimerRef.current) window.clearTimeout(retryTimerRef.current);
+  }, []);
+
+  const resend = useCallback((recordingId: string) => {
+    const existing = deliveriesRef.current[recordingId];
+    if (existing?.state === 'sending') return;
+    const now = Date.now();
+    update(existing
+      ? { ...existing, state: 'pending', attempts: 0, lastError: undefined, updatedAt: now, nextAttemptAt: now }
+      : createDelivery(recordingId, now));
+    flush();
+  }, [update, flush]);
+
+  return {
+    deliveries,
+    isOutboxLoaded,
+    resend,
+    flush,
+    trackStream
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * Local stand-in for a trigger broker, for testing without ntfy.sh.
+ *
+ *   node scripts/trigger-server.mjs [port]
+ *
+ *   GET  /<topic>/sse   ntfy-compatible event stream (use as ntfy server or SSE URL)
+ *   GET  /<topic>/ws    WebSocket delivering raw message text
+ *   POST /<topic>       publish the request body to every subscriber of <topic>
+ *
+ *   curl -d start http://localhost:8787/vf-test
+ */
+import http from 'node:http';
+import crypto from 'node:crypto';
+
+const port = Number(process.argv[2] ?? process.env.PORT ?? 8787);
+const streams = new Map(); // topic -> Set<ServerResponse>
+const sockets = new Map(); // topic -> Set<net.Socket>
+
+const subscribers = (map, topic) => {
+  if (!map.has(topic)) map.set(topic, new Set());
+  return map.get(topic);
+};
+
+const cors = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, OPTIONS'
+};
+
+// Unmasked server-to-client text frame.
+function wsFrame(text) {
+  const payload = Buffer.from(text);
+  const length = payload.length;
+  const header = length < 126
+    ? Buffer.from([0x81, length])
+    : length < 65536
+      ? Buffer.from([0x81, 126, length >> 8, length & 0xff])
+      : Buffer.concat([Buffer.from([0x81, 127]), (() => { const b = Buffer.alloc(8); b.writeBigUInt64BE(BigInt(length)); return b; })()]);
+  return Buffer.concat([header, payload]);
+}
+
+function publish(topic, message) {
+  const event = JSON.stringify({
+    id: crypto.randomUUID().slice(0, 12),
+    time: Math.floor(Date.now() / 1000),
+    event: 'message',
+    topic,
+    message
+  });
+  subscribers(streams, topic).forEach(res => res.write(`data: ${event}\n\n`));
+  subscribers(sockets, topic).forEach(socket => socket.write(wsFrame(message)));
+  console.log(`[${topic}] ${message.slice(0, 80)}`);
+}
+
+const server = http.createServer((req, res) => {
+  const [topic, kind] = new URL(req.url, 'http://localhost').pathname.split('/').filter(Boolean);
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, cors).end();
+    return;
+  }
+  if (!topic) {
+    res.writeHead(404, cors).end();
+    return;
+  }
+
+  if (req.method === 'GET' && kind === 'sse') {
+    res.writeHead(200, { ...cors, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+    res.write(`data: ${JSON.stringify({ event: 'open', topic, time: Math.floor(Date.now() / 1000) })}\n\n`);
+    const keepalive = setInterval(() => res.write(': keepalive\n\n'), 25000);
+    subscribers(streams, topic).add(res);
+    req.on('close', () => {
+      clearInterval(keepalive);
+      subscribers(streams, topic).delete(res);
+    });
+    return;
+  }
+
+  if (req.method === 'POST' || req.method === 'PUT') {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      publish(topic, body.trim());
+      res.writeHead(200, { ...cors, 'Content-Type': 'application/json' }).end('{"ok":true}');
+    });
+    return;
+  }
+
+  res.writeHead(404, cors).end();
+});
+
+server.on('upgrade', (req, socket) => {
+  const [topic, kind] = new URL(req.url, 'http://localhost').pathname.split('/').filter(Boolean);
+  const key = req.headers['sec-websocket-key'];
+  if (!topic || kind !== 'ws' || !key) {
+    socket.destroy();
+    return;
+  }
+  const accept = crypto.createHash('sha1').update(`${key}258EAFA5-E914-47DA-95CA-C5AB0DC85B11`).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '', ''
+  ].join('\r\n'));
+  subscribers(sockets, topic).add(socket);
+  // Client frames are ignored except for close (opcode 8).
+  socket.on('data', data => {
+    if ((data[0] & 0x0f) === 8) socket.end();
+  });
+  socket.on('close', () => subscribers(sockets, topic).delete(socket));
+  socket.on('error', () => subscribers(sockets, topic).delete(socket));
+});
+
+server.listen(port, () => {
+  console.log(`Trigger stand-in listening on http://localhost:${port}`);
+});
@@ -0,0 +1,89 @@
+/**
+ * Passphrase encryption for the archive: PBKDF2-SHA256 derives an AES-GCM
+ * key, and every sealed value carries its own random IV. The key never
+ * leaves memory; only the salt and a check value are stored.
+ */
+
+const PBKDF2_ITERATIONS = 600_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+// Sealed into the header so a passphrase can be checked without touching
+// any recording.
+const CHECK_TEXT = 'voiceflow-archive';
+
+export interface Sealed {
+  iv: Uint8Array<ArrayBuffer>;
+  data: ArrayBuffer;
+}
+
+export interface EncryptionHeader {
+  salt: Uint8Array<ArrayBuffer>;
+  iterations: number;
+  check: Sealed;
+  autoLockMinutes: number; // 0 never locks on its own
+}
+
+export class PassphraseError extends Error {
+  constructor(message = 'Wrong passphrase') {
+    super(message);
+    this.name = 'PassphraseError';
+  }
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+export async function seal(key: CryptoKey, data: BufferSource): Promise<Sealed> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  return { iv, data: await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data) };
+}
+
+/** Throws when the key is wrong or the data was tampered with. */
+export async function unseal(key: CryptoKey, sealed: Sealed): Promise<ArrayBuffer> {
+  return crypto.subtle.decrypt({ name: 'AES-GCM', iv: sealed.iv }, key, sealed.data);
+}
+
+export const sealText = (key: CryptoKey, text: string) => seal(key, encoder.encode(text));
+
+export const unsealText = async (key: CryptoKey, sealed: Sealed) => decoder.decode(await unseal(key, sealed));
+
+export async function sealBlob(key: CryptoKey, blob: Blob): Promise<Sealed> {
+  return seal(key, await blob.arrayBuffer());
+}
+
+export async function unsealBlob(key: CryptoKey, sealed: Sealed, type: string): Promise<Blob> {
+  return new Blob([await unseal(key, sealed)], { type });
+}
+
+/** A new salt and key for `passphrase`, with the header to store. */
+export async function createHeader(passphrase: string, autoLockMinutes: number): Promise<{ header: EncryptionHeader; key: CryptoKey }> {
+  if (!passphrase) throw new PassphraseError('Passphrase is empty');
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  return {
+    header: { salt, iterations: PBKDF2_ITERATIONS, check: await sealText(key, CHECK_TEXT), autoLockMinutes },
+    key
+  };
+}
+
+/** The archive key for `passphrase`; throws PassphraseError if it is wrong. */
+export async function unlockHeader(header: EncryptionHeader, passphrase: string): Promise<CryptoKey> {
+  const key = await deriveKey(passphrase, header.salt, header.iterations);
+  try {
+    if (await unsealText(key, header.check) === CHECK_TEXT) return key;
+  } catch (e) {
+    // AES-GCM rejects a wrong key outright.
+  }
+  throw new PassphraseError();
+}
@@ -0,0 +1,250 @@
+import { OriginalAudio, Recording } from '../types';
+import { EncryptionHeader, Sealed, sealBlob, sealText, unsealBlob, unsealText } from './archiveCrypto';
+
+const DB_NAME = 'voiceflow-archive';
+const DB_VERSION = 5;
+
+export const STORES = {
+  RECORDINGS: 'recordings',
+  OUTBOX: 'outbox',
+  SESSIONS: 'sessions',
+  META: 'meta'
+} as const;
+
+const ENCRYPTION_KEY = 'encryption';
+
+// Recordings are persisted without their `url`; blob URLs are only valid for
+// the document that created them, so they are rebuilt on load.
+type StoredRecording = Omit<Recording, 'url'>;
+
+// In an encrypted archive the audio and text are sealed; timing and format
+// stay readable.
+type SealedRecording = Omit<StoredRecording, 'blob' | 'original' | 'transcription' | 'summary'> & {
+  sealed: true;
+  blob: Sealed;
+  original?: Omit<OriginalAudio, 'blob'> & { blob: Sealed };
+  transcription?: Sealed;
+  summary?: Sealed;
+};
+
+/**
+ * Schema migrations keyed by the version they upgrade to. When bumping
+ * DB_VERSION add a new entry here; every step between the stored version and
+ * DB_VERSION is replayed in order inside the upgrade transaction.
+ */
+const MIGRATIONS: Record<number, (db: IDBDatabase, tx: IDBTransaction) => void> = {
+  1: (db) => {
+    const store = db.createObjectStore(STORES.RECORDINGS, { keyPath: 'id' });
+    store.createIndex('timestamp', 'timestamp');
+  },
+  // Recordings from before format negotiation were always WebM.
+  2: (_db, tx) => {
+    const request = tx.objectStore(STORES.RECORDINGS).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      const value = cursor.value as StoredRecording;
+      if (!value.mimeType) {
+        cursor.update({ ...value, mimeType: 'audio/webm', extension: 'webm' });
+      }
+      cursor.continue();
+    };
+  },
+  3: (db) => {
+    db.createObjectStore(STORES.OUTBOX, { keyPath: 'recordingId' });
+  },
+  4: (db) => {
+    db.createObjectStore(STORES.SESSIONS, { keyPath: 'id' });
+  },
+  5: (db) => {
+    db.createObjectStore(STORES.META);
+  }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openArchive(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      for (let v = event.oldVersion + 1; v <= DB_VERSION; v++) {
+        MIGRATIONS[v]?.(db, tx);
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema; drop our handle so it can proceed.
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+    request.onblocked = () => console.warn('Archive upgrade blocked by another open tab');
+  });
+  return dbPromise;
+}
+
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openArchive();
+  const tx = db.transaction(storeName, mode);
+  const result = promisifyRequest(fn(tx.objectStore(storeName)));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  return result;
+}
+
+export class ArchiveLockedError extends Error {
+  constructor() {
+    super('Archive is locked');
+    this.name = 'ArchiveLockedError';
+  }
+}
+
+/**
+ * What recordings are sealed with: null for a plain archive, 'locked' while
+ * an encrypted archive has no key (and until the header has been read).
+ */
+let archiveKey: CryptoKey | null | 'locked' = 'locked';
+
+export function setArchiveKey(key: CryptoKey | null | 'locked') {
+  archiveKey = key;
+}
+
+function currentKey(): CryptoKey | null {
+  if (archiveKey === 'locked') throw new ArchiveLockedError();
+  return archiveKey;
+}
+
+// Recording writes run one at a time and in order: sealing makes a save
+// slower than a delete issued after it, and a re-key must see every write.
+let pendingWrite: Promise<unknown> = Promise.resolve();
+
+function inOrder<T>(write: () => Promise<T>): Promise<T> {
+  const result = pendingWrite.then(write);
+  pendingWrite = result.catch(() => {});
+  return result;
+}
+
+const isSealed = (record: StoredRecording | SealedRecording): record is SealedRecording =>
+  (record as SealedRecording).sealed === true;
+
+async function sealRecording(key: CryptoKey, record: StoredRecording): Promise<SealedRecording> {
+  const { blob, original, transcription, summary, ...rest } = record;
+  return {
+    ...rest,
+    sealed: true,
+    blob: await sealBlob(key, blob),
+    ...(original && { original: { ...original, blob: await sealBlob(key, original.blob) } }),
+    ...(transcription !== undefined && { transcription: await sealText(key, transcription) }),
+    ...(summary !== undefined && { summary: await sealText(key, summary) })
+  };
+}
+
+async function unsealRecording(key: CryptoKey, record: SealedRecording): Promise<StoredRecording> {
+  const { sealed, blob, original, transcription, summary, ...rest } = record;
+  return {
+    ...rest,
+    blob: await unsealBlob(key, blob, rest.mimeType),
+    ...(original && { original: { ...original, blob: await unsealBlob(key, original.blob, original.mimeType) } }),
+    ...(transcription && { transcription: await unsealText(key, transcription) }),
+    ...(summary && { summary: await unsealText(key, summary) })
+  };
+}
+
+async function readRecord(key: CryptoKey | null, record: StoredRecording | SealedRecording): Promise<StoredRecording> {
+  if (!isSealed(record)) return record;
+  if (!key) throw new ArchiveLockedError();
+  return unsealRecording(key, record);
+}
+
+export async function loadRecordings(): Promise<Recording[]> {
+  const key = currentKey();
+  const stored = await withStore<(StoredRecording | SealedRecording)[]>(STORES.RECORDINGS, 'readonly', s => s.getAll());
+  const records = await Promise.all(stored.map(record => readRecord(key, record)));
+  return records
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .map(rec => ({ ...rec, url: URL.createObjectURL(rec.blob) }));
+}
+
+/** One recording, as another tab just wrote it; undefined if it is gone. */
+export async function loadRecording(id: string): Promise<Recording | undefined> {
+  const key = currentKey();
+  const record = await withStore<StoredRecording | SealedRecording | undefined>(STORES.RECORDINGS, 'readonly', s => s.get(id));
+  if (!record) return undefined;
+  const stored = await readRecord(key, record);
+  return { ...stored, url: URL.createObjectURL(stored.blob) };
+}
+
+export function saveRecording(recording: Recording): Promise<void> {
+  const { url, ...stored } = recording;
+  return inOrder(async () => {
+    const key = currentKey();
+    const record = key ? await sealRecording(key, stored) : stored;
+    await withStore(STORES.RECORDINGS, 'readwrite', s => s.put(record));
+  });
+}
+
+export function removeRecording(id: string): Promise<void> {
+  return inOrder(() => withStore(STORES.RECORDINGS, 'readwrite', s => s.delete(id)));
+}
+
+export async function loadEncryptionHeader(): Promise<EncryptionHeader | undefined> {
+  return withStore<EncryptionHeader | undefined>(STORES.META, 'readonly', s => s.get(ENCRYPTION_KEY));
+}
+
+export function saveEncryptionHeader(header: EncryptionHeader): Promise<void> {
+  return inOrder(async () => {
+    await withStore(STORES.META, 'readwrite', s => s.put(header, ENCRYPTION_KEY));
+  });
+}
+
+/**
+ * Rewrites every recording under `key` (null stores them plain) and swaps
+ * in `header`, all in one transaction so a failure leaves the archive as it
+ * was. The archive must be unlocked.
+ */
+export function rekeyArchive(key: CryptoKey | null, header: EncryptionHeader | null): Promise<void> {
+  return inOrder(async () => {
+    const oldKey = currentKey();
+    const stored = await withStore<(StoredRecording | SealedRecording)[]>(STORES.RECORDINGS, 'readonly', s => s.getAll());
+    const rewritten = await Promise.all(stored.map(async record => {
+      const plain = await readRecord(oldKey, record);
+      return key ? sealRecording(key, plain) : plain;
+    }));
+
+    const db = await openArchive();
+    const tx = db.transaction([STORES.RECORDINGS, STORES.META], 'readwrite');
+    const recordings = tx.objectStore(STORES.RECORDINGS);
+    rewritten.forEach(record => recordings.put(record));
+    if (header) tx.objectStore(STORES.META).put(header, ENCRYPTION_KEY);
+    else tx.objectStore(STORES.META).delete(ENCRYPTION_KEY);
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+    archiveKey = key;
+  });
+}
@@ -0,0 +1,62 @@
+import { AudioSettings } from '../types';
+
+export interface InputDevice {
+  deviceId: string;
+  groupId: string;
+  label: string;
+}
+
+/**
+ * Microphones the browser exposes. Labels stay empty until the page has been
+ * granted microphone access once, so callers fall back to a numbered name.
+ */
+export async function listInputDevices(): Promise<InputDevice[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(d => d.kind === 'audioinput')
+    .map((d, i) => ({ deviceId: d.deviceId, groupId: d.groupId, label: d.label || `Microphone ${i + 1}` }));
+}
+
+/**
+ * getUserMedia constraints for the capture settings. The device is only
+ * `ideal` so an unplugged microphone falls back to the default instead of
+ * failing; the swap back happens on the next device change.
+ */
+export function captureConstraints(settings: AudioSettings): MediaTrackConstraints {
+  return {
+    ...(settings.deviceId && { deviceId: { ideal: settings.deviceId } }),
+    echoCancellation: settings.echoCancellation,
+    noiseSuppression: settings.noiseSuppression,
+    autoGainControl: settings.autoGainControl,
+    channelCount: { ideal: settings.channelCount },
+    ...(settings.sampleRate > 0 && { sampleRate: { ideal: settings.sampleRate } })
+  };
+}
+
+/** Changes to any of these require reopening the microphone. */
+export const captureKey = (settings: AudioSettings) => [
+  settings.deviceId,
+  settings.echoCancellation,
+  settings.noiseSuppression,
+  settings.autoGainControl,
+  settings.channelCount,
+  settings.sampleRate
+].join('|');
+
+/**
+ * Whether the live track is no longer the input the settings ask for: the
+ * chosen device came back, or, when following the system default, the
+ * default moved to another device.
+ */
+export async function isInputStale(track: MediaStreamTrack, deviceId: string): Promise<boolean> {
+  if (track.readyState === 'ended') return true;
+  const inputs = await listInputDevices();
+  const current = track.getSettings();
+  if (deviceId && inputs.some(d => d.deviceId === deviceId)) return current.deviceId !== deviceId;
+  const fallback = inputs.find(d => d.deviceId === 'default') ?? inputs[0];
+  if (!fallback) return false;
+  return fallback.groupId && current.groupId
+    ? fallback.groupId !== current.groupId
+    : fallback.deviceId !== current.deviceId;
+}
@@ -0,0 +1,267 @@
+import { Recording } from '../types';
+import { encodeWav } from './wavEncoder';
+import { WAV_FORMAT } from './audioFormats';
+
+// Decoding resamples to this rate; edits are written back as WAV at it.
+const EDIT_SAMPLE_RATE = 48000;
+
+// Only in-flight decodes are shared; holding on to finished buffers for every
+// card in the archive would cost far more memory than decoding again.
+const decoding = new WeakMap<Blob, Promise<AudioBuffer>>();
+
+export function decodeBlob(blob: Blob): Promise<AudioBuffer> {
+  let pending = decoding.get(blob);
+  if (!pending) {
+    // An offline context decodes without needing a user gesture first.
+    const ctx = new OfflineAudioContext(1, 1, EDIT_SAMPLE_RATE);
+    pending = blob.arrayBuffer().then(data => ctx.decodeAudioData(data));
+    pending.finally(() => decoding.delete(blob)).catch(() => {});
+    decoding.set(blob, pending);
+  }
+  return pending;
+}
+
+export function mixdown(buffer: AudioBuffer, from = 0, to = buffer.length): Float32Array {
+  const mono = new Float32Array(Math.max(0, to - from));
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const channel = buffer.getChannelData(c).subarray(from, to);
+    for (let i = 0; i < mono.length; i++) mono[i] += channel[i] / buffer.numberOfChannels;
+  }
+  return mono;
+}
+
+/** Peak amplitude (0-1) per bucket, for drawing a waveform `buckets` wide. */
+export function computePeaks(buffer: AudioBuffer, buckets: number): Float32Array {
+  const samples = mixdown(buffer);
+  const peaks = new Float32Array(buckets);
+  const size = samples.length / buckets;
+  for (let b = 0; b < buckets; b++) {
+    let peak = 0;
+    const end = Math.min(samples.length, Math.floor((b + 1) * size));
+    for (let i = Math.floor(b * size); i < end; i++) {
+      const value = Math.abs(samples[i]);
+      if (value > peak) peak = value;
+    }
+    peaks[b] = peak;
+  }
+  return peaks;
+}
+
+// Loudness is measured over short blocks, leaving out silence and pauses
+// well below the speech around them.
+const LOUDNESS_BLOCK_S = 0.1;
+const ABSOLUTE_GATE_DB = -70;
+const RELATIVE_GATE_DB = -20;
+// Normalising never pushes a peak above this.
+const PEAK_CEILING_DB = -1;
+// Takes already this close to the target are left as captured.
+const NORMALIZE_TOLERANCE_DB = 0.5;
+
+const toDb = (power: number) => 10 * Math.log10(power);
+
+/** Gated RMS level of the samples in dBFS, or null if they are all silence. */
+export function measureLoudness(samples: Float32Array, sampleRate: number): number | null {
+  const size = Math.max(1, Math.round(LOUDNESS_BLOCK_S * sampleRate));
+  const blocks: number[] = [];
+  for (let start = 0; start < samples.length; start += size) {
+    const end = Math.min(samples.length, start + size);
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+    const power = sum / (end - start);
+    if (power > 0 && toDb(power) > ABSOLUTE_GATE_DB) blocks.push(power);
+  }
+  if (blocks.length === 0) return null;
+  const mean = (powers: number[]) => powers.reduce((a, b) => a + b, 0) / powers.length;
+  const gate = toDb(mean(blocks)) + RELATIVE_GATE_DB;
+  const kept = blocks.filter(power => toDb(power) > gate);
+  return toDb(mean(kept));
+}
+
+/**
+ * Gain in dB that brings the audio's loudness to `targetDb`, limited so no
+ * peak clips; null when the audio is silent or already close enough.
+ */
+export async function loudnessGain(blob: Blob, targetDb: number): Promise<number | null> {
+  const buffer = await decodeBlob(blob);
+  const samples = mixdown(buffer);
+  const loudness = measureLoudness(samples, buffer.sampleRate);
+  if (loudness === null) return null;
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) peak = Math.max(peak, Math.abs(samples[i]));
+  const gainDb = Math.min(targetDb - loudness, PEAK_CEILING_DB - 20 * Math.log10(peak));
+  return Math.abs(gainDb) < NORMALIZE_TOLERANCE_DB ? null : Math.round(gainDb * 10) / 10;
+}
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+// Our own WAV takes (16-bit mono PCM, data right after a 44-byte header) are
+// scaled sample by sample, keeping their rate and format.
+async function scaleWav(blob: Blob, gain: number): Promise<Blob | null> {
+  const data = await blob.arrayBuffer();
+  const view = new DataView(data);
+  const isPcm16 = data.byteLength >= 44 && view.getUint16(20, true) === 1 && view.getUint16(34, true) === 16 &&
+    view.getUint32(36, false) === 0x64617461; // 'data'
+  if (!isPcm16) return null;
+  const samples = new Int16Array(data.slice(44, 44 + Math.floor((data.byteLength - 44) / 2) * 2));
+  for (let i = 0; i < samples.length; i++) samples[i] = Math.max(-0x8000, Math.min(0x7fff, Math.round(samples[i] * gain)));
+  return new Blob([data.slice(0, 44), samples], { type: blob.type });
+}
+
+// How long to wait for the page to be allowed to run an AudioContext.
+const CONTEXT_START_MS = 1000;
+
+// Compressed takes go back through MediaRecorder in their own format. That
+// runs in real time, so a minute-long take takes a minute.
+async function reencode(blob: Blob, mimeType: string, gain: number): Promise<Blob> {
+  const ctx = new AudioContext();
+  try {
+    const buffer = await ctx.decodeAudioData(await blob.arrayBuffer());
+    await Promise.race([ctx.resume(), new Promise(resolve => setTimeout(resolve, CONTEXT_START_MS))]);
+    if (ctx.state !== 'running') throw new Error('Audio processing is not allowed yet');
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    const amplifier = ctx.createGain();
+    amplifier.gain.value = gain;
+    const destination = ctx.createMediaStreamDestination();
+    source.connect(amplifier).connect(destination);
+
+    const recorder = new MediaRecorder(destination.stream, { mimeType });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = e => { if (e.data.size > 0) chunks.push(e.data); };
+    const stopped = new Promise<void>((resolve, reject) => {
+      recorder.onstop = () => resolve();
+      recorder.onerror = () => reject(new Error('Re-encoding failed'));
+    });
+    source.onended = () => recorder.stop();
+    recorder.start();
+    source.start();
+    await stopped;
+    return new Blob(chunks, { type: recorder.mimeType || mimeType });
+  } finally {
+    ctx.close().catch(() => {});
+  }
+}
+
+/**
+ * Brings the take's loudness to `targetDb` in its own format. Audio that
+ * cannot be rewritten is kept as captured, with the gain it still needs in
+ * `gain` for playback and receivers to apply.
+ */
+export async function normalizeRecording(recording: Recording, targetDb: number): Promise<Recording> {
+  const gainDb = await loudnessGain(recording.blob, targetDb);
+  if (gainDb === null) return recording;
+  const gain = dbToGain(gainDb);
+  try {
+    const scaled = recording.mimeType.startsWith(WAV_FORMAT.mimeType) ? await scaleWav(recording.blob, gain) : null;
+    const blob = scaled ?? await reencode(recording.blob, recording.mimeType, gain);
+    return { ...recording, blob, url: URL.createObjectURL(blob) };
+  } catch (e) {
+    console.warn(`Normalising ${recording.id} as a playback gain: ${e instanceof Error ? e.message : String(e)}`);
+    return { ...recording, gain: gainDb };
+  }
+}
+
+// An element can only be routed into Web Audio once, so its gain node is
+// kept for as long as the element lives.
+let playbackContext: AudioContext | null = null;
+const boosts = new WeakMap<HTMLMediaElement, GainNode>();
+
+/**
+ * Plays the element through a gain of `gainDb`; an element's own volume
+ * cannot go above 1. Call from a user gesture, which the context needs.
+ */
+export function setPlaybackGain(audio: HTMLMediaElement, gainDb: number) {
+  let boost = boosts.get(audio);
+  if (!boost) {
+    if (gainDb === 0) return;
+    playbackContext ??= new AudioContext();
+    boost = playbackContext.createGain();
+    playbackContext.createMediaElementSource(audio).connect(boost).connect(playbackContext.destination);
+    boosts.set(audio, boost);
+  }
+  boost.gain.value = dbToGain(gainDb);
+  playbackContext!.resume().catch(() => {});
+}
+
+/** Cuts `[start, end)` seconds out of the buffer as a mono WAV blob. */
+export function sliceToWav(buffer: AudioBuffer, start: number, end: number): Blob {
+  const from = Math.max(0, Math.floor(start * buffer.sampleRate));
+  const to = Math.min(buffer.length, Math.ceil(end * buffer.sampleRate));
+  return encodeWav([mixdown(buffer, from, to)], buffer.sampleRate);
+}
+
+// A transcript only matches the audio it was made from, so any change to
+// the audio drops it along with its summary.
+const withoutText = ({ transcription, summary, processing, ...rest }: Recording) => rest;
+
+/**
+ * Swaps in edited audio. The first edit stashes the captured audio in
+ * `original`, so undo always returns to what was recorded.
+ */
+export function withEditedAudio(recording: Recording, blob: Blob, duration: number, timestamp = recording.timestamp): Recording {
+  return {
+    ...withoutText(recording),
+    blob,
+    timestamp,
+    url: URL.createObjectURL(blob),
+    duration,
+    mimeType: WAV_FORMAT.mimeType,
+    extension: WAV_FORMAT.extension,
+    original: recording.original ?? {
+      blob: recording.blob,
+      timestamp: recording.timestamp,
+      duration: recording.duration,
+      mimeType: recording.mimeType,
+      extension: recording.extension,
+      ...(recording.source && { source: recording.source })
+    }
+  };
+}
+
+export function restoreOriginal(recording: Recording): Recording {
+  const { original, ...rest } = withoutText(recording);
+  if (!original) return recording;
+  return { ...rest, ...original, url: URL.createObjectURL(original.blob) };
+}
+
+// `timestamp` marks when a recording stopped, so cutting off the end moves it.
+const endingAt = (recording: Recording, buffer: AudioBuffer, at: number) =>
+  recording.timestamp - Math.round((buffer.duration - at) * 1000);
+
+// Imported audio keeps pointing at the right place in its file.
+const shiftSource = (recording: Recording, by: number) =>
+  recording.source && { source: { ...recording.source, offset: recording.source.offset + by } };
+
+/** Keeps only `[start, end)` seconds of the recording. */
+export async function trimRecording(recording: Recording, start: number, end: number): Promise<Recording> {
+  const buffer = await decodeBlob(recording.blob);
+  return { ...withEditedAudio(recording, sliceToWav(buffer, start, end), end - start, endingAt(recording, buffer, end)), ...shiftSource(recording, start) };
+}
+
+/**
+ * Splits at `at` seconds. The first part keeps the id (and with it the undo
+ * history); the second becomes a new recording ending when the original did,
+ * marked as split off so it is not taken for a new capture.
+ */
+export async function splitRecording(recording: Recording, at: number): Promise<[Recording, Recording]> {
+  const buffer = await decodeBlob(recording.blob);
+  const total = buffer.duration;
+  const first = withEditedAudio(recording, sliceToWav(buffer, 0, at), at, endingAt(recording, buffer, at));
+  const secondBlob = sliceToWav(buffer, at, total);
+  const second: Recording = {
+    id: Math.random().toString(36).substring(2, 11),
+    blob: secondBlob,
+    url: URL.createObjectURL(secondBlob),
+    timestamp: recording.timestamp,
+    duration: total - at,
+    mimeType: WAV_FORMAT.mimeType,
+    extension: WAV_FORMAT.extension,
+    sessionId: recording.sessionId,
+    pinned: recording.pinned,
+    gain: recording.gain,
+    captureMode: recording.captureMode,
+    splitFrom: recording.id,
+    ...shiftSource(recording, at)
+  };
+  return [first, second];
+}
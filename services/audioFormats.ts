@@ -0,0 +1,73 @@
+import { OutputFormat, Recording } from '../types';
+
+export interface NegotiatedFormat {
+  format: Exclude<OutputFormat, 'auto'>;
+  mimeType: string;
+  extension: string;
+}
+
+const CANDIDATES: Record<Exclude<OutputFormat, 'auto' | 'wav'>, string[]> = {
+  webm: ['audio/webm;codecs=opus', 'audio/webm'],
+  ogg: ['audio/ogg;codecs=opus', 'audio/ogg'],
+  mp4: ['audio/mp4;codecs=mp4a.40.2', 'audio/mp4', 'audio/aac']
+};
+
+// Preference order when the user leaves the choice to the browser.
+const AUTO_ORDER: Exclude<OutputFormat, 'auto' | 'wav'>[] = ['webm', 'mp4', 'ogg'];
+
+export const FORMAT_LABELS: Record<OutputFormat, string> = {
+  auto: 'Auto',
+  webm: 'WebM/Opus',
+  ogg: 'Ogg',
+  mp4: 'MP4/AAC',
+  wav: 'WAV'
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+  'audio/aac': 'aac',
+  'audio/wav': 'wav',
+  'audio/mpeg': 'mp3'
+};
+
+export const WAV_FORMAT: NegotiatedFormat = { format: 'wav', mimeType: 'audio/wav', extension: 'wav' };
+
+export function extensionForMime(mimeType: string): string {
+  return EXTENSIONS[mimeType.split(';')[0].trim()] ?? 'bin';
+}
+
+const isTypeSupported = (mimeType: string) =>
+  typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(mimeType);
+
+function negotiateContainer(format: Exclude<OutputFormat, 'auto' | 'wav'>): NegotiatedFormat | null {
+  const mimeType = CANDIDATES[format].find(isTypeSupported);
+  return mimeType ? { format, mimeType, extension: extensionForMime(mimeType) } : null;
+}
+
+/**
+ * Resolves the requested format to one this browser can actually produce.
+ * WAV is encoded by us from raw PCM and is therefore always available; it is
+ * also the fallback when no MediaRecorder container is supported.
+ */
+export function negotiateFormat(requested: OutputFormat): NegotiatedFormat {
+  if (requested === 'wav') return WAV_FORMAT;
+  if (requested !== 'auto') {
+    const exact = negotiateContainer(requested);
+    if (exact) return exact;
+  }
+  for (const format of AUTO_ORDER) {
+    const negotiated = negotiateContainer(format);
+    if (negotiated) return negotiated;
+  }
+  return WAV_FORMAT;
+}
+
+export function isFormatSupported(format: OutputFormat): boolean {
+  return format === 'auto' || format === 'wav' || negotiateContainer(format) !== null;
+}
+
+export function recordingFilename(recording: Recording, prefix = 'recording'): string {
+  return `${prefix}-${recording.id}.${recording.extension}`;
+}
@@ -0,0 +1,161 @@
+import { AudioSettings, OutputFormat } from '../types';
+import { SegmentRecorder, createSegmentRecorder } from './segmentRecorder';
+import { captureConstraints, isInputStale } from './audioDevices';
+import { MonitorMode, SignalChain, createSignalChain, loadSignalChain } from './signalChain';
+import vadWorkletUrl from '../worklets/vadProcessor.ts?worker&url';
+import { VAD_PROCESSOR_NAME, MAX_PRE_ROLL_MS, VadCommand, VadEvent } from '../worklets/vadProtocol';
+
+export interface AudioInputHandlers {
+  onEvent: (event: VadEvent) => void;
+  /** The input went away, e.g. the microphone was unplugged. */
+  onEnded: () => void;
+}
+
+/**
+ * An open microphone with its detector. Segment audio is fed through the
+ * signal chain into `recordBus`, which recorders attach to.
+ */
+export interface AudioInput {
+  readonly context: AudioContext;
+  readonly recordBus: AudioNode;
+  send(command: VadCommand): void;
+  /** Applies settings that take effect without reopening the microphone. */
+  configure(settings: AudioSettings): void;
+  /** Plays the input back, before or after the signal chain. */
+  monitor(mode: MonitorMode): void;
+  /** Routes the pre-roll followed by the live input into `recordBus`. */
+  connectSegment(preRoll: Float32Array): void;
+  disconnectSegment(): void;
+  /** Whether the input no longer matches the device the settings ask for. */
+  isStale(deviceId: string): Promise<boolean>;
+  /** Stops the microphone. The context stays open for recorders to finish. */
+  release(): void;
+  close(): void;
+}
+
+export type AudioSource = (settings: AudioSettings, handlers: AudioInputHandlers) => Promise<AudioInput>;
+
+export type RecorderFactory = (input: AudioInput, format: OutputFormat) => Promise<SegmentRecorder>;
+
+export const createInputRecorder: RecorderFactory = (input, format) =>
+  createSegmentRecorder(input.context, input.recordBus, format);
+
+/** The microphone through getUserMedia, with detection in an AudioWorklet. */
+export const openMicrophone: AudioSource = async (settings, { onEvent, onEnded }) => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: captureConstraints(settings) });
+  const track = stream.getAudioTracks()[0];
+  stream.getAudioTracks().forEach(t => { t.onended = onEnded; });
+  const stopTracks = () => stream.getTracks().forEach(t => {
+    t.onended = null;
+    t.stop();
+  });
+
+  let audioContext: AudioContext | null = null;
+  try {
+    // Matching the track's rate avoids resampling, and Firefox refuses to
+    // connect a stream whose rate differs from the context's.
+    const trackRate = track?.getSettings().sampleRate;
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    audioContext = trackRate ? new AudioContextClass({ sampleRate: trackRate }) : new AudioContextClass();
+    if (audioContext.state === 'suspended') await audioContext.resume();
+    await audioContext.audioWorklet.addModule(vadWorkletUrl);
+    await loadSignalChain(audioContext);
+  } catch (e) {
+    stopTracks();
+    audioContext?.close().catch(() => {});
+    throw e;
+  }
+  const ctx = audioContext;
+
+  const source = ctx.createMediaStreamSource(stream);
+  const vadNode = new AudioWorkletNode(ctx, VAD_PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: { settings }
+  });
+  vadNode.port.onmessage = (e: MessageEvent<VadEvent>) => onEvent(e.data);
+  source.connect(vadNode);
+  const recordBus = ctx.createGain();
+  // The pre-roll and the delayed live input meet at the chain's input, so
+  // the whole segment is processed alike.
+  const chain = createSignalChain(ctx, settings);
+  chain.output.connect(recordBus);
+  let segmentNodes: AudioNode[] = [];
+
+  // Built on first use: a chain of its own, since the recording one only
+  // carries audio while a segment is open.
+  let monitorPaths: { chain: SignalChain; raw: GainNode; processed: GainNode } | null = null;
+  const monitor = (mode: MonitorMode) => {
+    if (mode === 'off' && !monitorPaths) return;
+    if (!monitorPaths) {
+      const raw = ctx.createGain();
+      const processed = ctx.createGain();
+      const monitorChain = createSignalChain(ctx, settings);
+      source.connect(raw);
+      raw.connect(ctx.destination);
+      source.connect(monitorChain.input);
+      monitorChain.output.connect(processed);
+      processed.connect(ctx.destination);
+      monitorPaths = { chain: monitorChain, raw, processed };
+    }
+    // Both paths keep running, so switching between them is instant.
+    monitorPaths.raw.gain.value = mode === 'raw' ? 1 : 0;
+    monitorPaths.processed.gain.value = mode === 'processed' ? 1 : 0;
+  };
+
+  const disconnectSegment = () => {
+    segmentNodes.forEach(node => {
+      try { node.disconnect(); } catch (e) {}
+    });
+    segmentNodes = [];
+  };
+
+  return {
+    context: ctx,
+    recordBus,
+    send: (command) => vadNode.port.postMessage(command),
+    configure(next) {
+      settings = next;
+      vadNode.port.postMessage({ type: 'configure', settings: next } satisfies VadCommand);
+      chain.configure(next);
+      monitorPaths?.chain.configure(next);
+    },
+    monitor,
+    // The live input is delayed by exactly the pre-roll length, so the two
+    // join without a gap.
+    connectSegment(preRoll) {
+      disconnectSegment();
+      const delay = ctx.createDelay(MAX_PRE_ROLL_MS / 1000 + 0.1);
+      delay.delayTime.value = preRoll.length / ctx.sampleRate;
+      source.connect(delay);
+      delay.connect(chain.input);
+      segmentNodes.push(delay);
+
+      if (preRoll.length > 0) {
+        const buffer = ctx.createBuffer(1, preRoll.length, ctx.sampleRate);
+        buffer.copyToChannel(preRoll, 0);
+        const player = ctx.createBufferSource();
+        player.buffer = buffer;
+        player.connect(chain.input);
+        player.start();
+        segmentNodes.push(player);
+      }
+    },
+    disconnectSegment,
+    isStale: (deviceId) => track ? isInputStale(track, deviceId) : Promise.resolve(true),
+    release() {
+      vadNode.port.onmessage = null;
+      vadNode.disconnect();
+      monitorPaths?.raw.disconnect();
+      monitorPaths?.processed.disconnect();
+      monitorPaths?.chain.dispose();
+      stopTracks();
+    },
+    close() {
+      chain.dispose();
+      ctx.close().catch(() => {});
+    }
+  };
+};
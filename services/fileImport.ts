@@ -0,0 +1,132 @@
+import { AudioSettings, Recording, Session } from '../types';
+import { createDetector } from './voiceDetector';
+import { createSession } from './sessions';
+import { encodeWav } from './wavEncoder';
+import { mixdown } from './audioEdit';
+import { WAV_FORMAT } from './audioFormats';
+import { MAX_PRE_ROLL_MS, VAD_FRAME_MS } from '../worklets/vadProtocol';
+
+// Imports are decoded at this rate: plenty for speech, and an hour of audio
+// stays around 230 MB instead of the 700 MB it takes at 48 kHz.
+const IMPORT_SAMPLE_RATE = 16000;
+
+// Detection hands control back to the page this often (in frames), so the
+// UI keeps drawing while long files are scanned.
+const YIELD_EVERY_FRAMES = 1500;
+
+export interface DetectedSegment {
+  start: number; // s
+  end: number;   // s
+}
+
+export interface ImportProgress {
+  phase: 'decoding' | 'detecting';
+  progress: number; // 0-1 within the phase
+}
+
+interface ImportOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: ImportProgress) => void;
+}
+
+export interface ImportResult {
+  session: Session;
+  recordings: Recording[]; // oldest first
+}
+
+const yieldToPage = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const checkAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('Import cancelled', 'AbortError');
+};
+
+/**
+ * Runs the detector over decoded audio with the rules the live worklet
+ * uses: a segment opens on speech with the pre-roll before it, and closes
+ * once silence has lasted the timeout plus the post-roll.
+ */
+export async function detectSegments(
+  samples: Float32Array,
+  sampleRate: number,
+  settings: AudioSettings,
+  { signal, onProgress }: ImportOptions = {}
+): Promise<DetectedSegment[]> {
+  const detector = createDetector(settings);
+  const frameLength = Math.round(sampleRate * VAD_FRAME_MS / 1000);
+  const frames = Math.floor(samples.length / frameLength);
+  const duration = samples.length / sampleRate;
+  const preRoll = Math.min(Math.max(0, settings.preRoll), MAX_PRE_ROLL_MS);
+  const closeAfter = settings.silenceTimeout + Math.max(0, settings.postRoll);
+
+  const segments: DetectedSegment[] = [];
+  let isSpeech = false;
+  let openedAt: number | null = null;
+  let silenceStartedAt: number | null = null;
+
+  for (let i = 0; i < frames; i++) {
+    if (i % YIELD_EVERY_FRAMES === 0) {
+      onProgress?.({ phase: 'detecting', progress: i / frames });
+      await yieldToPage();
+      checkAborted(signal);
+    }
+    const now = i * VAD_FRAME_MS;
+    const frame = samples.subarray(i * frameLength, (i + 1) * frameLength);
+    const vad = detector.process({ samples: frame, sampleRate, timestamp: now });
+
+    if (vad.isSpeech && !isSpeech) {
+      isSpeech = true;
+      silenceStartedAt = null;
+      if (openedAt === null) openedAt = Math.max(0, now - preRoll);
+    } else if (!vad.isSpeech && isSpeech) {
+      isSpeech = false;
+      silenceStartedAt = now;
+    }
+
+    if (openedAt !== null && silenceStartedAt !== null && now - silenceStartedAt >= closeAfter) {
+      segments.push({ start: openedAt / 1000, end: now / 1000 });
+      openedAt = null;
+      silenceStartedAt = null;
+    }
+  }
+  if (openedAt !== null) segments.push({ start: openedAt / 1000, end: duration });
+  onProgress?.({ phase: 'detecting', progress: 1 });
+  return segments;
+}
+
+/**
+ * Splits an audio file into one recording per detected segment, grouped in
+ * a session spanning the file. The file is taken to have finished recording
+ * when it was last modified, which dates the segments.
+ */
+export async function importAudioFile(file: File, settings: AudioSettings, options: ImportOptions = {}): Promise<ImportResult> {
+  const { signal, onProgress } = options;
+  onProgress?.({ phase: 'decoding', progress: 0 });
+  const ctx = new OfflineAudioContext(1, 1, IMPORT_SAMPLE_RATE);
+  const buffer = await ctx.decodeAudioData(await file.arrayBuffer());
+  checkAborted(signal);
+  onProgress?.({ phase: 'decoding', progress: 1 });
+
+  const samples = buffer.numberOfChannels === 1 ? buffer.getChannelData(0) : mixdown(buffer);
+  const segments = await detectSegments(samples, buffer.sampleRate, settings, options);
+
+  const endedAt = file.lastModified || Date.now();
+  const startedAt = endedAt - Math.round(buffer.duration * 1000);
+  const session: Session = { ...createSession(startedAt), endedAt };
+  const recordings = segments.map(({ start, end }): Recording => {
+    const from = Math.floor(start * buffer.sampleRate);
+    const to = Math.min(samples.length, Math.ceil(end * buffer.sampleRate));
+    const blob = encodeWav([samples.subarray(from, to)], buffer.sampleRate);
+    return {
+      id: Math.random().toString(36).substring(2, 11),
+      blob,
+      url: URL.createObjectURL(blob),
+      timestamp: startedAt + Math.round(end * 1000),
+      duration: end - start,
+      mimeType: WAV_FORMAT.mimeType,
+      extension: WAV_FORMAT.extension,
+      sessionId: session.id,
+      source: { fileName: file.name, offset: start }
+    };
+  });
+  return { session, recordings };
+}
@@ -0,0 +1,160 @@
+/**
+ * Just enough MQTT 3.1.1 over WebSocket to subscribe to one topic and publish
+ * replies: CONNECT, SUBSCRIBE, QoS 0/1 PUBLISH and keepalive pings.
+ */
+
+export interface MqttOptions {
+  clientId: string;
+  username?: string;
+  password?: string;
+  keepAlive?: number; // seconds
+}
+
+export interface MqttHandlers {
+  onConnect: () => void;
+  onMessage: (topic: string, payload: string) => void;
+  onClose: (reason?: string) => void;
+}
+
+export interface MqttConnection {
+  subscribe(topic: string): void;
+  publish(topic: string, payload: string): void;
+  close(): void;
+}
+
+const CONNECT = 1;
+const CONNACK = 2;
+const PUBLISH = 3;
+const PUBACK = 4;
+const SUBSCRIBE = 8;
+const PINGREQ = 12;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function encodeLength(length: number): number[] {
+  const bytes: number[] = [];
+  do {
+    let byte = length % 128;
+    length = Math.floor(length / 128);
+    if (length > 0) byte |= 0x80;
+    bytes.push(byte);
+  } while (length > 0);
+  return bytes;
+}
+
+function encodeString(value: string): number[] {
+  const bytes = encoder.encode(value);
+  return [bytes.length >> 8, bytes.length & 0xff, ...bytes];
+}
+
+function packet(header: number, body: number[]): Uint8Array {
+  return new Uint8Array([header, ...encodeLength(body.length), ...body]);
+}
+
+export function connectMqtt(url: string, options: MqttOptions, handlers: MqttHandlers): MqttConnection {
+  const socket = new WebSocket(url, 'mqtt');
+  socket.binaryType = 'arraybuffer';
+  let buffer = new Uint8Array(0);
+  let packetId = 0;
+  let pingTimer: number | null = null;
+  let closed = false;
+  const keepAlive = options.keepAlive ?? 60;
+
+  const send = (data: Uint8Array) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(data);
+  };
+
+  const nextId = () => {
+    packetId = packetId % 0xffff + 1;
+    return packetId;
+  };
+
+  const finish = (reason?: string) => {
+    if (closed) return;
+    closed = true;
+    if (pingTimer) window.clearInterval(pingTimer);
+    handlers.onClose(reason);
+  };
+
+  socket.onopen = () => {
+    let flags = 0x02; // clean session
+    const payload = encodeString(options.clientId);
+    if (options.username) {
+      flags |= 0x80;
+      payload.push(...encodeString(options.username));
+      if (options.password) {
+        flags |= 0x40;
+        payload.push(...encodeString(options.password));
+      }
+    }
+    send(packet(CONNECT << 4, [
+      ...encodeString('MQTT'), 4, flags, keepAlive >> 8, keepAlive & 0xff, ...payload
+    ]));
+  };
+
+  const handlePacket = (type: number, flags: number, body: Uint8Array) => {
+    if (type === CONNACK) {
+      if (body[1] !== 0) {
+        socket.close();
+        finish(`CONNACK ${body[1]}`);
+        return;
+      }
+      pingTimer = window.setInterval(() => send(new Uint8Array([PINGREQ << 4, 0])), keepAlive * 500);
+      handlers.onConnect();
+    } else if (type === PUBLISH) {
+      const qos = (flags >> 1) & 0x03;
+      const topicLength = (body[0] << 8) | body[1];
+      let offset = 2 + topicLength;
+      const topic = decoder.decode(body.subarray(2, offset));
+      if (qos > 0) {
+        send(packet(PUBACK << 4, [body[offset], body[offset + 1]]));
+        offset += 2;
+      }
+      handlers.onMessage(topic, decoder.decode(body.subarray(offset)));
+    }
+  };
+
+  socket.onmessage = (event) => {
+    const chunk = new Uint8Array(event.data as ArrayBuffer);
+    const merged = new Uint8Array(buffer.length + chunk.length);
+    merged.set(buffer, 0);
+    merged.set(chunk, buffer.length);
+    buffer = merged;
+
+    // A WebSocket frame may carry several packets or only part of one.
+    while (buffer.length >= 2) {
+      let length = 0;
+      let multiplier = 1;
+      let index = 1;
+      let byte: number;
+      do {
+        if (index >= buffer.length) return;
+        byte = buffer[index++];
+        length += (byte & 0x7f) * multiplier;
+        multiplier *= 128;
+      } while (byte & 0x80);
+      if (buffer.length < index + length) return;
+      handlePacket(buffer[0] >> 4, buffer[0] & 0x0f, buffer.subarray(index, index + length));
+      buffer = buffer.slice(index + length);
+    }
+  };
+
+  socket.onerror = () => finish('socket error');
+  socket.onclose = () => finish();
+
+  return {
+    subscribe(topic) {
+      const id = nextId();
+      send(packet((SUBSCRIBE << 4) | 0x02, [id >> 8, id & 0xff, ...encodeString(topic), 1]));
+    },
+    publish(topic, payload) {
+      send(packet(PUBLISH << 4, [...encodeString(topic), ...encoder.encode(payload)]));
+    },
+    close() {
+      closed = true;
+      if (pingTimer) window.clearInterval(pingTimer);
+      socket.close();
+    }
+  };
+}
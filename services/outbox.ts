@@ -0,0 +1,30 @@
+import { DeliveryRecord } from '../types';
+import { STORES, withStore } from './archiveDB';
+
+export const MAX_DELIVERY_ATTEMPTS = 8;
+const BACKOFF_BASE_MS = 5000;
+const BACKOFF_MAX_MS = 10 * 60 * 1000;
+
+/** Exponential backoff with up to 20% jitter so retrying devices spread out. */
+export function backoffDelay(attempts: number): number {
+  const delay = Math.min(BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1), BACKOFF_MAX_MS);
+  return delay + Math.random() * delay * 0.2;
+}
+
+export function createDelivery(recordingId: string, now = Date.now()): DeliveryRecord {
+  return { recordingId, state: 'pending', attempts: 0, createdAt: now, updatedAt: now, nextAttemptAt: now };
+}
+
+export async function loadDeliveries(): Promise<DeliveryRecord[]> {
+  const stored = await withStore<DeliveryRecord[]>(STORES.OUTBOX, 'readonly', s => s.getAll());
+  // A reload mid-upload leaves entries marked as sending; nobody is anymore.
+  return stored.map(d => d.state === 'sending' ? { ...d, state: 'pending' } : d);
+}
+
+export async function saveDelivery(delivery: DeliveryRecord): Promise<void> {
+  await withStore(STORES.OUTBOX, 'readwrite', s => s.put(delivery));
+}
+
+export async function removeDelivery(recordingId: string): Promise<void> {
+  await withStore(STORES.OUTBOX, 'readwrite', s => s.delete(recordingId));
+}
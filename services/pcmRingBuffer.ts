@@ -0,0 +1,52 @@
+/**
+ * Fixed-size rolling buffer of mono PCM samples. Holds the most recent
+ * `capacity` samples of microphone input so a segment can be backdated to
+ * before the voice trigger fired.
+ */
+export class PcmRingBuffer {
+  private buffer: Float32Array;
+  private writeIndex = 0;
+  private filled = 0;
+
+  constructor(capacity: number) {
+    this.buffer = new Float32Array(Math.max(1, Math.floor(capacity)));
+  }
+
+  get capacity() {
+    return this.buffer.length;
+  }
+
+  get length() {
+    return this.filled;
+  }
+
+  write(samples: Float32Array) {
+    const cap = this.buffer.length;
+    // Only the tail of an oversized block can survive anyway.
+    const input = samples.length > cap ? samples.subarray(samples.length - cap) : samples;
+    const firstPart = Math.min(input.length, cap - this.writeIndex);
+    this.buffer.set(input.subarray(0, firstPart), this.writeIndex);
+    if (firstPart < input.length) {
+      this.buffer.set(input.subarray(firstPart), 0);
+    }
+    this.writeIndex = (this.writeIndex + input.length) % cap;
+    this.filled = Math.min(cap, this.filled + input.length);
+  }
+
+  /** Returns the buffered samples oldest-first as a new array. */
+  read(): Float32Array {
+    const out = new Float32Array(this.filled);
+    const start = (this.writeIndex - this.filled + this.buffer.length) % this.buffer.length;
+    const firstPart = Math.min(this.filled, this.buffer.length - start);
+    out.set(this.buffer.subarray(start, start + firstPart), 0);
+    if (firstPart < this.filled) {
+      out.set(this.buffer.subarray(0, this.filled - firstPart), firstPart);
+    }
+    return out;
+  }
+
+  clear() {
+    this.writeIndex = 0;
+    this.filled = 0;
+  }
+}
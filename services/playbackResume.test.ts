@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { RecorderStatus, ScheduleSettings } from '../types';
+import { createPlaybackResume } from './playbackResume';
+
+const { IDLE, LISTENING, STOPPING } = RecorderStatus;
+
+const ANYTIME: ScheduleSettings = { enabled: false, timeZone: 'UTC', windows: [], oneOff: [], quietHours: [] };
+// Quiet all day, every day.
+const QUIET: ScheduleSettings = {
+  ...ANYTIME,
+  enabled: true,
+  quietHours: [{ id: 'q', days: [0, 1, 2, 3, 4, 5, 6], start: 0, end: 24 * 60 - 1 }]
+};
+const NOW = Date.UTC(2026, 0, 5, 12, 0);
+
+describe('createPlaybackResume', () => {
+  it('starts listening after playing while idle', () => {
+    const resume = createPlaybackResume();
+    resume.observe(IDLE, true);
+    resume.observe(IDLE, false);
+    expect(resume.shouldResume(IDLE, ANYTIME, NOW)).toBe(true);
+  });
+
+  it('stays stopped when capture is stopped during playback', () => {
+    const resume = createPlaybackResume();
+    resume.observe(LISTENING, false);
+    resume.observe(LISTENING, true);
+    resume.observe(STOPPING, true);
+    resume.observe(IDLE, true);
+    resume.observe(IDLE, false);
+    expect(resume.shouldResume(IDLE, ANYTIME, NOW)).toBe(false);
+  });
+
+  it('only remembers the stop for the playback it happened in', () => {
+    const resume = createPlaybackResume();
+    resume.observe(LISTENING, true);
+    resume.observe(IDLE, true);
+    expect(resume.shouldResume(IDLE, ANYTIME, NOW)).toBe(false);
+    resume.observe(IDLE, true);
+    expect(resume.shouldResume(IDLE, ANYTIME, NOW)).toBe(true);
+  });
+
+  it('leaves a running recorder alone', () => {
+    const resume = createPlaybackResume();
+    resume.observe(LISTENING, true);
+    expect(resume.shouldResume(LISTENING, ANYTIME, NOW)).toBe(false);
+  });
+
+  it('keeps to the schedule', () => {
+    const resume = createPlaybackResume();
+    resume.observe(IDLE, true);
+    expect(resume.shouldResume(IDLE, QUIET, NOW)).toBe(false);
+  });
+});
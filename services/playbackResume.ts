@@ -0,0 +1,34 @@
+import { RecorderStatus, ScheduleSettings } from '../types';
+import { isScheduled } from './schedule';
+
+/**
+ * Whether listening starts once remote playback has finished. It does when
+ * the recorder is idle, unless someone stopped it while the audio played or
+ * the schedule wants it off.
+ */
+export interface PlaybackResume {
+  /** Called with every recorder status, and as playback starts and ends. */
+  observe(status: RecorderStatus, isPlaying: boolean): void;
+  /** Called once playback has drained; answers for that playback only. */
+  shouldResume(status: RecorderStatus, schedule: ScheduleSettings, now: number): boolean;
+}
+
+export function createPlaybackResume(): PlaybackResume {
+  let last: RecorderStatus = RecorderStatus.IDLE;
+  // Half-duplex playback only suspends detection, so the recorder going
+  // idle mid-playback means it was stopped on purpose.
+  let stoppedDuringPlayback = false;
+
+  return {
+    observe(status, isPlaying) {
+      if (isPlaying && status === RecorderStatus.IDLE && last !== RecorderStatus.IDLE) stoppedDuringPlayback = true;
+      last = status;
+    },
+    shouldResume(status, schedule, now) {
+      const stopped = stoppedDuringPlayback;
+      stoppedDuringPlayback = false;
+      if (stopped || status !== RecorderStatus.IDLE) return false;
+      return !(schedule.enabled && isScheduled(schedule, now) === false);
+    }
+  };
+}
@@ -0,0 +1,150 @@
+import { RecorderStatus } from '../types';
+
+/**
+ * Version 1 of the JSON remote command format:
+ *
+ *   { "v": 1, "id": "abc", "cmd": "record", "args": { "seconds": 10 } }
+ *
+ * `id` is echoed back in the reply so callers can correlate results. Plain
+ * `start` / `stop` strings are still accepted and map to the same commands.
+ */
+export const COMMAND_VERSION = 1;
+
+export type RemoteCommand =
+  | { cmd: 'start' | 'stop' | 'pause' | 'resume' | 'status' | 'skip' }
+  | { cmd: 'set'; args: { sensitivity?: number; silenceTimeout?: number } }
+  | { cmd: 'record'; args: { seconds: number } }
+  | { cmd: 'delete' | 'resend'; args: { id: string } }
+  | { cmd: 'play'; args: { source: string; priority: number } }
+  | { cmd: 'profile'; args: { name: string } | { profile: unknown } };
+
+export type CommandName = RemoteCommand['cmd'];
+
+export interface CommandEnvelope {
+  id?: string;
+  command: RemoteCommand;
+  legacy: boolean;
+}
+
+export interface DeviceStatus {
+  recorder: RecorderStatus;
+  paused: boolean;
+  archiveSize: number;
+  lastError: string | null;
+}
+
+export interface CommandReply {
+  v: typeof COMMAND_VERSION;
+  id?: string;
+  cmd?: string;
+  ok: boolean;
+  result?: unknown;
+  error?: string;
+  status: DeviceStatus;
+  timestamp: number;
+}
+
+export class CommandError extends Error {
+  constructor(message: string, readonly id?: string, readonly cmd?: string) {
+    super(message);
+    this.name = 'CommandError';
+  }
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isOptionalNumber = (value: unknown): value is number | undefined => value === undefined || isNumber(value);
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+function validate(cmd: unknown, rawArgs: unknown, id?: string): RemoteCommand {
+  const fail = (message: string) => new CommandError(message, id, typeof cmd === 'string' ? cmd : undefined);
+  const args = isObject(rawArgs) ? rawArgs : {};
+  switch (cmd) {
+    case 'start':
+    case 'stop':
+    case 'pause':
+    case 'resume':
+    case 'status':
+    case 'skip':
+      return { cmd };
+    case 'set': {
+      const { sensitivity, silenceTimeout } = args;
+      if (sensitivity === undefined && silenceTimeout === undefined) throw fail('set needs sensitivity or silenceTimeout');
+      if (!isOptionalNumber(sensitivity) || (sensitivity !== undefined && (sensitivity < 0 || sensitivity > 100))) {
+        throw fail('sensitivity must be 0-100');
+      }
+      if (!isOptionalNumber(silenceTimeout) || (silenceTimeout !== undefined && silenceTimeout < 0)) {
+        throw fail('silenceTimeout must be 0 or more ms');
+      }
+      return { cmd, args: { sensitivity, silenceTimeout } };
+    }
+    case 'record': {
+      const { seconds } = args;
+      if (!isNumber(seconds) || seconds <= 0) throw fail('record needs seconds > 0');
+      return { cmd, args: { seconds } };
+    }
+    case 'delete':
+    case 'resend': {
+      const { id: recordingId } = args;
+      if (typeof recordingId !== 'string' || !recordingId) throw fail(`${cmd} needs a recording id`);
+      return { cmd, args: { id: recordingId } };
+    }
+    case 'play': {
+      const { source, priority } = args;
+      if (typeof source !== 'string' || !source) throw fail('play needs an audio URL or base64 source');
+      if (!isOptionalNumber(priority)) throw fail('priority must be a number');
+      return { cmd, args: { source, priority: priority ?? 0 } };
+    }
+    case 'profile': {
+      const { profile, name } = args;
+      // A full profile is validated against the settings schema when applied.
+      if (isObject(profile)) return { cmd, args: { profile } };
+      if (typeof name === 'string' && name) return { cmd, args: { name } };
+      throw fail('profile needs the name of a saved profile or a profile object');
+    }
+    default:
+      throw fail(`Unknown command: ${String(cmd)}`);
+  }
+}
+
+/**
+ * Recognises a command in a trigger payload. Returns null for anything that
+ * is not a command (audio URLs, base64 audio) and throws CommandError for
+ * structured commands that are malformed.
+ */
+export function parseCommand(payload: string): CommandEnvelope | null {
+  const plain = payload.trim().toLowerCase();
+  if (plain === 'start' || plain === 'stop') {
+    return { command: { cmd: plain }, legacy: true };
+  }
+  if (!payload.trim().startsWith('{')) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(payload);
+  } catch (e) {
+    return null;
+  }
+  if (!isObject(parsed) || !('cmd' in parsed)) return null;
+
+  const id = typeof parsed.id === 'string' ? parsed.id : undefined;
+  if (parsed.v !== COMMAND_VERSION) {
+    throw new CommandError(`Unsupported command version: ${String(parsed.v)}`, id, typeof parsed.cmd === 'string' ? parsed.cmd : undefined);
+  }
+  return { id, command: validate(parsed.cmd, parsed.args, id), legacy: false };
+}
+
+export function buildReply(
+  envelope: { id?: string; cmd?: string },
+  status: DeviceStatus,
+  outcome: { ok: true; result?: unknown } | { ok: false; error: string }
+): CommandReply {
+  return {
+    v: COMMAND_VERSION,
+    id: envelope.id,
+    cmd: envelope.cmd,
+    ...outcome,
+    status,
+    timestamp: Date.now()
+  };
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { DeliveryRecord, Recording, RetentionSettings } from '../types';
+import { selectExpired } from './retention';
+import { createDelivery } from './outbox';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 0, 31);
+const WEEK: RetentionSettings = { maxAgeDays: 7, maxSizeMB: 0, maxCount: 0 };
+
+const recording = (id: string, ageDays: number, extra: Partial<Recording> = {}): Recording => ({
+  id,
+  blob: new Blob(['audio']),
+  url: '',
+  timestamp: NOW - ageDays * DAY_MS,
+  duration: 1,
+  mimeType: 'audio/webm',
+  extension: 'webm',
+  ...extra
+});
+
+const delivery = (recordingId: string, state: DeliveryRecord['state']): DeliveryRecord =>
+  ({ ...createDelivery(recordingId, NOW), state });
+
+describe('selectExpired', () => {
+  it('waits for the webhook to accept a recording before removing it', () => {
+    const recordings = [recording('sent', 30), recording('pending', 30), recording('unqueued', 30), recording('split', 30, { splitFrom: 'sent' })];
+    const deliveries = { sent: delivery('sent', 'delivered'), pending: delivery('pending', 'pending') };
+    expect(selectExpired(recordings, deliveries, WEEK, true, NOW)).toEqual(['sent']);
+  });
+
+  it('removes old recordings freely when nothing is forwarded', () => {
+    const recordings = [recording('old', 30), recording('pinned', 30, { pinned: true }), recording('new', 1)];
+    expect(selectExpired(recordings, {}, WEEK, false, NOW)).toEqual(['old']);
+  });
+
+  it('keeps undelivered recordings even over the count limit', () => {
+    const recordings = [recording('a', 3), recording('b', 2), recording('c', 1)];
+    const deliveries = { b: delivery('b', 'delivered'), c: delivery('c', 'delivered') };
+    expect(selectExpired(recordings, deliveries, { maxAgeDays: 0, maxSizeMB: 0, maxCount: 1 }, true, NOW)).toEqual(['b', 'c']);
+  });
+});
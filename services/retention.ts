@@ -0,0 +1,85 @@
+import { DeliveryRecord, Recording, RetentionSettings } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MB = 1024 * 1024;
+
+/** Share of the quota in use at which the archive warns it is filling up. */
+export const QUOTA_WARNING_RATIO = 0.8;
+
+export interface StorageStatus {
+  usage: number;    // bytes
+  quota: number;    // bytes
+  persisted: boolean;
+}
+
+/** Bytes a recording takes in the archive, including its unedited original. */
+export const recordingBytes = (recording: Recording) =>
+  recording.blob.size + (recording.original?.blob.size ?? 0);
+
+/**
+ * Pinned recordings never expire. While a webhook is set up, neither does
+ * anything it has yet to accept, including recordings that were never
+ * queued; without one nothing is waiting to be forwarded. Both still count
+ * towards the size and count limits.
+ */
+function isExpendable(recording: Recording, delivery: DeliveryRecord | undefined, isForwarding: boolean) {
+  return !recording.pinned && (!isForwarding || delivery?.state === 'delivered');
+}
+
+/**
+ * Ids of the recordings the policy removes: everything past the maximum
+ * age, then the oldest until the archive fits the size and count limits.
+ */
+export function selectExpired(
+  recordings: Recording[],
+  deliveries: Record<string, DeliveryRecord>,
+  settings: RetentionSettings,
+  isForwarding: boolean,
+  now = Date.now()
+): string[] {
+  const oldestFirst = [...recordings].sort((a, b) => a.timestamp - b.timestamp);
+  const expired = new Set<string>();
+
+  if (settings.maxAgeDays > 0) {
+    const cutoff = now - settings.maxAgeDays * DAY_MS;
+    oldestFirst.forEach(r => {
+      if (r.timestamp < cutoff && isExpendable(r, deliveries[r.id], isForwarding)) expired.add(r.id);
+    });
+  }
+
+  let count = recordings.length - expired.size;
+  let bytes = recordings.reduce((sum, r) => expired.has(r.id) ? sum : sum + recordingBytes(r), 0);
+  const maxBytes = settings.maxSizeMB * MB;
+  const overLimit = () =>
+    (settings.maxCount > 0 && count > settings.maxCount) || (maxBytes > 0 && bytes > maxBytes);
+
+  for (const r of oldestFirst) {
+    if (!overLimit()) break;
+    if (expired.has(r.id) || !isExpendable(r, deliveries[r.id], isForwarding)) continue;
+    expired.add(r.id);
+    count--;
+    bytes -= recordingBytes(r);
+  }
+  return [...expired];
+}
+
+/** Origin-wide usage as the browser reports it; null where unsupported. */
+export async function estimateStorage(): Promise<StorageStatus | null> {
+  if (!navigator.storage?.estimate) return null;
+  const [estimate, persisted] = await Promise.all([
+    navigator.storage.estimate(),
+    navigator.storage.persisted ? navigator.storage.persisted() : Promise.resolve(false)
+  ]);
+  if (estimate.usage === undefined || !estimate.quota) return null;
+  return { usage: estimate.usage, quota: estimate.quota, persisted };
+}
+
+/**
+ * Asks the browser not to evict the archive under storage pressure. Browsers
+ * may grant this silently, prompt, or refuse.
+ */
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (!navigator.storage?.persist) return false;
+  if (await navigator.storage.persisted?.()) return true;
+  return navigator.storage.persist();
+}
@@ -0,0 +1,33 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { ScheduleSettings } from '../types';
+import { isScheduled } from './schedule';
+
+// 09:00-17:00 every day, on the device's own clock.
+const OFFICE: ScheduleSettings = {
+  enabled: true,
+  timeZone: '',
+  windows: [{ id: 'w', days: [0, 1, 2, 3, 4, 5, 6], start: 9 * 60, end: 17 * 60 }],
+  oneOff: [],
+  quietHours: []
+};
+const NOON_UTC = Date.UTC(2026, 0, 5, 12, 0);
+const initialZone = process.env.TZ;
+
+afterEach(() => {
+  process.env.TZ = initialZone;
+});
+
+describe('isScheduled', () => {
+  it('follows a change of the system time zone', () => {
+    process.env.TZ = 'UTC';
+    expect(isScheduled(OFFICE, NOON_UTC)).toBe(true);
+    process.env.TZ = 'Asia/Tokyo'; // 21:00 there
+    expect(isScheduled(OFFICE, NOON_UTC)).toBe(false);
+  });
+
+  it('uses the named zone when one is set', () => {
+    process.env.TZ = 'UTC';
+    expect(isScheduled({ ...OFFICE, timeZone: 'Europe/Berlin' }, NOON_UTC)).toBe(true);
+    expect(isScheduled({ ...OFFICE, timeZone: 'Asia/Tokyo' }, NOON_UTC)).toBe(false);
+  });
+});
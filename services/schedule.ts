@@ -0,0 +1,149 @@
+import { ScheduleSettings, WeeklyWindow } from '../types';
+
+/** When the schedule next changes its mind, and what it changes to. */
+export interface ScheduleTransition {
+  at: number;
+  active: boolean;
+}
+
+const MINUTE = 60_000;
+// Weekly windows repeat, so a week (and a day of slack for DST) is as far
+// ahead as a transition can be.
+const LOOKAHEAD_MINUTES = 8 * 24 * 60;
+
+export const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+interface WallClock {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  weekday: number; // 0 = Sunday
+  minute: number;  // minutes after midnight
+}
+
+// Keyed by zone name. The device's zone is looked up on every call rather
+// than cached, so a change of system time zone is picked up.
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const resolveZone = (timeZone: string) => timeZone || new Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+function formatterFor(zone: string) {
+  const timeZone = resolveZone(zone);
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      weekday: 'short',
+      hour: 'numeric',
+      minute: 'numeric'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string) {
+  if (!timeZone) return true;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * The wall clock in `timeZone` at an instant. Everything is evaluated
+ * through this, so DST shifts and zone changes apply exactly as a clock on
+ * the wall would show them.
+ */
+function wallClock(at: number, timeZone: string): WallClock {
+  const parts: Record<string, string> = {};
+  formatterFor(timeZone).formatToParts(at).forEach(p => { parts[p.type] = p.value; });
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    minute: Number(parts.hour) * 60 + Number(parts.minute)
+  };
+}
+
+/**
+ * The instant a wall-clock time in `timeZone` refers to. Times skipped by a
+ * DST jump come out shifted past it by the size of the jump.
+ */
+export function zonedTimeToEpoch(year: number, month: number, day: number, minute: number, timeZone: string): number {
+  const target = Date.UTC(year, month - 1, day, 0, minute);
+  const offsetAt = (at: number) => {
+    const wall = wallClock(at, timeZone);
+    return Date.UTC(wall.year, wall.month - 1, wall.day, 0, wall.minute) - Math.floor(at / MINUTE) * MINUTE;
+  };
+  let guess = target - offsetAt(target);
+  guess = target - offsetAt(guess);
+  return guess;
+}
+
+function inWindow(window: WeeklyWindow, wall: WallClock) {
+  const today = window.days.includes(wall.weekday);
+  if (window.start < window.end) return today && wall.minute >= window.start && wall.minute < window.end;
+  const yesterday = window.days.includes((wall.weekday + 6) % 7);
+  return (today && wall.minute >= window.start) || (yesterday && wall.minute < window.end);
+}
+
+/**
+ * Whether the schedule wants the recorder listening at `at`: false in quiet
+ * hours, otherwise whether a window is open. Null when no windows are set,
+ * in which case only quiet hours are enforced.
+ */
+export function isScheduled(schedule: ScheduleSettings, at: number): boolean | null {
+  const wall = wallClock(at, schedule.timeZone);
+  if (schedule.quietHours.some(w => inWindow(w, wall))) return false;
+  if (schedule.windows.length === 0 && schedule.oneOff.length === 0) return null;
+  return schedule.windows.some(w => inWindow(w, wall)) || schedule.oneOff.some(w => at >= w.start && at < w.end);
+}
+
+/**
+ * The next change in `isScheduled`, found by walking forward a minute at a
+ * time: windows are set to the minute, and stepping through real instants
+ * rather than wall-clock times is what keeps DST days right.
+ */
+export function nextTransition(schedule: ScheduleSettings, from: number): ScheduleTransition | null {
+  if (schedule.windows.length === 0 && schedule.oneOff.length === 0 && schedule.quietHours.length === 0) return null;
+  // One lookup of the device's zone for the whole walk.
+  const zoned = { ...schedule, timeZone: resolveZone(schedule.timeZone) };
+  const current = isScheduled(zoned, from);
+  let at = Math.floor(from / MINUTE) * MINUTE;
+  for (let i = 0; i < LOOKAHEAD_MINUTES; i++) {
+    at += MINUTE;
+    const next = isScheduled(zoned, at);
+    if (next !== current) return { at, active: next === true };
+  }
+  return null;
+}
+
+export const formatMinutes = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+export const parseMinutes = (value: string) => {
+  const [hours, minutes] = value.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+/** `datetime-local` value for an instant, on the schedule's wall clock. */
+export function toLocalInput(at: number, timeZone: string) {
+  const wall = wallClock(at, timeZone);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${wall.year}-${pad(wall.month)}-${pad(wall.day)}T${formatMinutes(wall.minute)}`;
+}
+
+export function fromLocalInput(value: string, timeZone: string): number | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/.exec(value);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes] = match.map(Number);
+  return zonedTimeToEpoch(year, month, day, hours * 60 + minutes, timeZone);
+}
@@ -0,0 +1,189 @@
+import { OutputFormat } from '../types';
+import { NegotiatedFormat, negotiateFormat } from './audioFormats';
+import { encodeWav, toPcm16 } from './wavEncoder';
+import pcmCaptureWorkletUrl from '../worklets/pcmCaptureProcessor.ts?worker&url';
+import { PCM_CAPTURE_PROCESSOR_NAME, PcmCaptureCommand, PcmCaptureEvent } from '../worklets/vadProtocol';
+
+/** Per-segment options; chunks are only produced when `onChunk` is set. */
+export interface SegmentOptions {
+  onChunk?: (chunk: Blob) => void;
+  timeslice?: number; // ms between chunks for MediaRecorder formats
+}
+
+/**
+ * Encodes whatever is connected to `input` into one blob per segment, hiding
+ * whether MediaRecorder or our own WAV encoder does the work.
+ */
+export interface SegmentRecorder {
+  readonly format: NegotiatedFormat;
+  readonly isRecording: boolean;
+  start(options?: SegmentOptions): void;
+  /** Resolves with the encoded segment, or null if nothing was captured. */
+  stop(): Promise<Blob | null>;
+  /**
+   * Ends the running segment and starts the next one without a gap at the
+   * boundary. Resolves with the finished segment.
+   */
+  rollover(options?: SegmentOptions): Promise<Blob | null>;
+  dispose(): void;
+}
+
+// MediaRecorder cannot hand over between two files on an exact sample, so
+// the outgoing recorder keeps running this long after the next has started.
+// The boundary is repeated briefly rather than dropped.
+const ROLLOVER_OVERLAP_MS = 250;
+
+/** Raw chunks streamed from the WAV recorder: 16-bit little-endian mono. */
+export const pcmChunkType = (sampleRate: number) => `audio/pcm;rate=${sampleRate};encoding=s16le;channels=1`;
+
+function createMediaSegmentRecorder(ctx: AudioContext, input: AudioNode, format: NegotiatedFormat): SegmentRecorder {
+  const dest = ctx.createMediaStreamDestination();
+  input.connect(dest);
+
+  // A recorder per segment: stop() delivers its final data asynchronously,
+  // so sharing one would mix that into whatever starts next.
+  const record = ({ onChunk, timeslice }: SegmentOptions = {}) => {
+    const recorder = new MediaRecorder(dest.stream, { mimeType: format.mimeType });
+    const chunks: Blob[] = [];
+    const done = new Promise<Blob | null>(resolve => {
+      recorder.ondataavailable = (e) => {
+        if (e.data.size === 0) return;
+        chunks.push(e.data);
+        onChunk?.(e.data);
+      };
+      recorder.onstop = () => {
+        // Some browsers append codec parameters; keep what they produced.
+        const type = recorder.mimeType || format.mimeType;
+        resolve(chunks.length > 0 ? new Blob(chunks, { type }) : null);
+      };
+    });
+    recorder.start(onChunk ? timeslice : undefined);
+    return { recorder, done };
+  };
+
+  let current: ReturnType<typeof record> | null = null;
+  const outgoing = new Set<MediaRecorder>();
+
+  return {
+    format,
+    get isRecording() {
+      return current !== null;
+    },
+    start(options) {
+      if (current) return;
+      current = record(options);
+    },
+    stop() {
+      if (!current) return Promise.resolve(null);
+      const { recorder, done } = current;
+      current = null;
+      recorder.stop();
+      return done;
+    },
+    rollover(options) {
+      const previous = current;
+      current = record(options);
+      if (!previous) return Promise.resolve(null);
+      outgoing.add(previous.recorder);
+      window.setTimeout(() => {
+        outgoing.delete(previous.recorder);
+        if (previous.recorder.state !== 'inactive') previous.recorder.stop();
+      }, ROLLOVER_OVERLAP_MS);
+      return previous.done;
+    },
+    dispose() {
+      [current?.recorder, ...outgoing].forEach(recorder => {
+        if (recorder && recorder.state !== 'inactive') {
+          try { recorder.stop(); } catch (e) {}
+        }
+      });
+      current = null;
+      outgoing.clear();
+      try { input.disconnect(dest); } catch (e) {}
+    }
+  };
+}
+
+async function createWavSegmentRecorder(ctx: AudioContext, input: AudioNode, format: NegotiatedFormat): Promise<SegmentRecorder> {
+  await ctx.audioWorklet.addModule(pcmCaptureWorkletUrl);
+  const node = new AudioWorkletNode(ctx, PCM_CAPTURE_PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit'
+  });
+  input.connect(node);
+
+  // Chunks arrive in order and every segment's chunks precede its `stopped`
+  // event, so they always belong to the oldest segment still open here.
+  // That lets a new segment start before the previous one is encoded.
+  interface Segment {
+    chunks: Float32Array[];
+    onChunk?: (chunk: Blob) => void;
+    resolve?: (blob: Blob | null) => void;
+  }
+  const segments: Segment[] = [];
+  let recording = false;
+  const chunkType = pcmChunkType(ctx.sampleRate);
+
+  node.port.onmessage = (e: MessageEvent<PcmCaptureEvent>) => {
+    const segment = segments[0];
+    if (!segment) return;
+    if (e.data.type === 'chunk') {
+      segment.chunks.push(e.data.samples);
+      segment.onChunk?.(new Blob([toPcm16(e.data.samples)], { type: chunkType }));
+    } else if (e.data.type === 'stopped') {
+      segments.shift();
+      segment.resolve?.(segment.chunks.length > 0 ? encodeWav(segment.chunks, ctx.sampleRate) : null);
+    }
+  };
+  const send = (command: PcmCaptureCommand) => node.port.postMessage(command);
+
+  // Marks the newest segment as ending; its `stopped` event resolves it.
+  const finishLatest = () => new Promise<Blob | null>(resolve => {
+    segments[segments.length - 1].resolve = resolve;
+  });
+
+  return {
+    format,
+    get isRecording() {
+      return recording;
+    },
+    start(options = {}) {
+      if (recording) return;
+      recording = true;
+      segments.push({ chunks: [], onChunk: options.onChunk });
+      send({ type: 'start' });
+    },
+    stop() {
+      if (!recording) return Promise.resolve(null);
+      recording = false;
+      const done = finishLatest();
+      send({ type: 'stop' });
+      return done;
+    },
+    rollover(options = {}) {
+      if (!recording) {
+        this.start(options);
+        return Promise.resolve(null);
+      }
+      const done = finishLatest();
+      segments.push({ chunks: [], onChunk: options.onChunk });
+      send({ type: 'split' });
+      return done;
+    },
+    dispose() {
+      recording = false;
+      segments.length = 0;
+      node.port.onmessage = null;
+      try { input.disconnect(node); } catch (e) {}
+    }
+  };
+}
+
+export async function createSegmentRecorder(ctx: AudioContext, input: AudioNode, requested: OutputFormat): Promise<SegmentRecorder> {
+  const format = negotiateFormat(requested);
+  return format.format === 'wav'
+    ? createWavSegmentRecorder(ctx, input, format)
+    : createMediaSegmentRecorder(ctx, input, format);
+}
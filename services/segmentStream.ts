@@ -0,0 +1,148 @@
+import { AutomationSettings, Recording } from '../types';
+import { postSegmentComplete, postStreamChunk, recordingMetadata } from './webhook';
+
+/** The segment a stream carries; its id becomes the recording's id. */
+export interface StreamSegment {
+  id: string;
+  startedAt: number;
+}
+
+/**
+ * Forwards a segment's audio while it is still being captured. Chunks go out
+ * in order with a sequence number from 0, followed by one completion message
+ * once the recording is final.
+ */
+export interface SegmentStream {
+  readonly timeslice: number;
+  send(chunk: Blob): void;
+  complete(recording: Recording): void;
+  /** Drops the segment, e.g. when nothing usable was captured. */
+  abort(): void;
+  /** Settles once the stream is over: true if the receiver got all of it. */
+  readonly delivered: Promise<boolean>;
+}
+
+function settlement() {
+  let settle!: (delivered: boolean) => void;
+  const delivered = new Promise<boolean>(resolve => { settle = resolve; });
+  return { delivered, settle };
+}
+
+const MIN_TIMESLICE_MS = 250;
+
+// Chunks are posted one after another; once one fails the rest of the
+// segment is dropped, since receivers could not reassemble it anyway.
+function createHttpStream(settings: AutomationSettings, segment: StreamSegment, timeslice: number, onError: (message: string) => void): SegmentStream {
+  let sequence = 0;
+  let failed = false;
+  let chain = Promise.resolve();
+  const { delivered, settle } = settlement();
+  const enqueue = (task: () => Promise<void>) => {
+    chain = chain.then(async () => {
+      if (failed) return;
+      try {
+        await task();
+      } catch (e) {
+        failed = true;
+        onError(`Stream ${segment.id}: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    });
+  };
+
+  return {
+    timeslice,
+    send(chunk) {
+      const seq = sequence++;
+      enqueue(() => postStreamChunk(settings, segment.id, seq, chunk));
+    },
+    complete(recording) {
+      enqueue(() => postSegmentComplete(settings, recording, sequence));
+      chain.then(() => settle(!failed));
+    },
+    abort() {
+      failed = true;
+      settle(false);
+    },
+    delivered
+  };
+}
+
+// One socket per segment. Every chunk is a JSON header frame followed by the
+// binary frame it describes; frames sent before the socket opens are held.
+function createWebSocketStream(settings: AutomationSettings, segment: StreamSegment, timeslice: number, onError: (message: string) => void): SegmentStream {
+  const socket = new WebSocket(settings.streamUrl);
+  const pending: (string | Blob)[] = [];
+  let sequence = 0;
+  let closing = false;
+  let completed = false;
+  let errored = false;
+  const { delivered, settle } = settlement();
+
+  const push = (...frames: (string | Blob)[]) => {
+    if (socket.readyState === WebSocket.OPEN) frames.forEach(frame => socket.send(frame));
+    else if (socket.readyState === WebSocket.CONNECTING) pending.push(...frames);
+  };
+
+  socket.onopen = () => {
+    pending.splice(0).forEach(frame => socket.send(frame));
+    if (closing) socket.close();
+  };
+  socket.onerror = () => {
+    errored = true;
+    onError(`Stream ${segment.id}: WebSocket error`);
+  };
+  // Only a clean close after the completion message means it all arrived.
+  socket.onclose = (e) => {
+    if (completed) settle(e.wasClean && !errored);
+  };
+
+  const close = () => {
+    closing = true;
+    // Closing only starts once queued frames have gone out.
+    if (socket.readyState === WebSocket.OPEN) socket.close();
+  };
+
+  return {
+    timeslice,
+    send(chunk) {
+      const header = { type: 'chunk', segmentId: segment.id, seq: sequence++, mimeType: chunk.type, size: chunk.size };
+      push(JSON.stringify(header), chunk);
+    },
+    complete(recording) {
+      completed = true;
+      if (socket.readyState === WebSocket.CLOSING || socket.readyState === WebSocket.CLOSED) {
+        settle(false);
+        return;
+      }
+      push(JSON.stringify({ type: 'segment-complete', segmentId: segment.id, chunks: sequence, ...recordingMetadata(settings, recording) }));
+      close();
+    },
+    abort() {
+      pending.length = 0;
+      push(JSON.stringify({ type: 'segment-aborted', segmentId: segment.id }));
+      close();
+      settle(false);
+    },
+    delivered
+  };
+}
+
+/** Opens a stream for the segment, or null when streaming is off or has nowhere to go. */
+export function openSegmentStream(
+  settings: AutomationSettings,
+  segment: StreamSegment,
+  onError: (message: string) => void
+): SegmentStream | null {
+  const timeslice = Math.max(MIN_TIMESLICE_MS, settings.streamTimeslice);
+  if (settings.streamMode === 'http' && settings.webhookUrl) {
+    return createHttpStream(settings, segment, timeslice, onError);
+  }
+  if (settings.streamMode === 'websocket' && settings.streamUrl) {
+    try {
+      return createWebSocketStream(settings, segment, timeslice, onError);
+    } catch (e) {
+      onError(`Stream ${segment.id}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  return null;
+}
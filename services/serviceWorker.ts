@@ -0,0 +1,56 @@
+// Shared with sw.js, which is plain JavaScript and cannot import these.
+const SHARE_CACHE = 'vf-shared';
+const OUTBOX_SYNC_TAG = 'vf-outbox';
+
+/** Query parameter the share target redirects to, with the file count. */
+export const SHARED_PARAM = 'shared';
+
+// Background Sync is not in the DOM typings.
+interface SyncRegistration extends ServiceWorkerRegistration {
+  sync?: { register: (tag: string) => Promise<void> };
+}
+
+/** Files shared into the app by the Web Share Target, removed as they are read. */
+export async function takeSharedFiles(): Promise<File[]> {
+  if (!('caches' in window)) return [];
+  const cache = await caches.open(SHARE_CACHE);
+  const files: File[] = [];
+  for (const request of await cache.keys()) {
+    const response = await cache.match(request);
+    await cache.delete(request);
+    if (!response) continue;
+    const blob = await response.blob();
+    files.push(new File([blob], decodeURIComponent(response.headers.get('X-File-Name') || 'shared-audio'), {
+      type: blob.type,
+      lastModified: Number(response.headers.get('X-Last-Modified')) || Date.now()
+    }));
+  }
+  return files;
+}
+
+/**
+ * Asks the browser to wake the service worker once it is back online, so
+ * queued uploads go out even if the tab was throttled in the meantime.
+ */
+export async function requestOutboxSync(): Promise<void> {
+  if (!('serviceWorker' in navigator)) return;
+  const registration = await navigator.serviceWorker.ready as SyncRegistration;
+  await registration.sync?.register(OUTBOX_SYNC_TAG);
+}
+
+/**
+ * Runs `flush` when background sync asks for it. `flush` resolves to
+ * whether the outbox is empty; if not, the browser retries the sync later.
+ */
+export function onOutboxSync(flush: () => Promise<boolean>): () => void {
+  if (!('serviceWorker' in navigator)) return () => {};
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data?.type !== 'flush-outbox') return;
+    const port = event.ports[0];
+    flush()
+      .then(done => port?.postMessage({ done }))
+      .catch(() => port?.postMessage({ done: false }));
+  };
+  navigator.serviceWorker.addEventListener('message', handleMessage);
+  return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+}
@@ -0,0 +1,79 @@
+import { Recording, Session } from '../types';
+import { STORES, withStore } from './archiveDB';
+import { decodeBlob, mixdown } from './audioEdit';
+import { toPcm16, wavHeader } from './wavEncoder';
+
+export function createSession(now = Date.now()): Session {
+  return { id: Math.random().toString(36).substring(2, 11), startedAt: now };
+}
+
+export async function loadSessions(): Promise<Session[]> {
+  return withStore<Session[]>(STORES.SESSIONS, 'readonly', s => s.getAll());
+}
+
+export async function saveSession(session: Session): Promise<void> {
+  await withStore(STORES.SESSIONS, 'readwrite', s => s.put(session));
+}
+
+export async function removeSession(id: string): Promise<void> {
+  await withStore(STORES.SESSIONS, 'readwrite', s => s.delete(id));
+}
+
+/** When a segment began; `timestamp` marks when it was stopped. */
+export const segmentStart = (recording: Recording) => recording.timestamp - recording.duration * 1000;
+
+/** Segments of a session in the order they were spoken. */
+export const sessionSegments = (session: Session, recordings: Recording[]) =>
+  recordings
+    .filter(r => r.sessionId === session.id)
+    .sort((a, b) => segmentStart(a) - segmentStart(b));
+
+/** The span the timeline covers; a running session extends to now. */
+export function sessionBounds(session: Session, segments: Recording[], now = Date.now()) {
+  const start = Math.min(session.startedAt, ...segments.map(segmentStart));
+  const end = Math.max(session.endedAt ?? now, ...segments.map(r => r.timestamp));
+  return { start, end };
+}
+
+/**
+ * Joins a session's segments into one mono WAV. With `keepSilence` every
+ * segment sits at its real offset and the gaps are filled with silence;
+ * otherwise they are butted together. Segments are converted one at a time
+ * and kept as 16-bit parts, so long sessions do not need a float buffer of
+ * the whole run.
+ */
+export async function exportSession(segments: Recording[], keepSilence: boolean): Promise<Blob> {
+  if (segments.length === 0) throw new Error('Session has no segments');
+  const parts: BlobPart[] = [];
+  let sampleRate = 0;
+  let written = 0;
+  let origin = 0;
+  let silence: Int16Array | null = null;
+
+  for (const segment of segments) {
+    const buffer = await decodeBlob(segment.blob);
+    if (!sampleRate) {
+      sampleRate = buffer.sampleRate;
+      silence = new Int16Array(sampleRate);
+      // Decoded length is exact, unlike the wall-clock duration.
+      origin = segment.timestamp - buffer.duration * 1000;
+    }
+
+    if (keepSilence) {
+      const offset = Math.round((segment.timestamp - buffer.duration * 1000 - origin) / 1000 * sampleRate);
+      let gap = offset - written;
+      while (gap > 0) {
+        const take = Math.min(gap, silence!.length);
+        parts.push(take === silence!.length ? silence! : silence!.subarray(0, take));
+        gap -= take;
+        written += take;
+      }
+    }
+
+    const mono = mixdown(buffer);
+    parts.push(toPcm16(mono));
+    written += mono.length;
+  }
+
+  return new Blob([wavHeader(written, sampleRate), ...parts], { type: 'audio/wav' });
+}
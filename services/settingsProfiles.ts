@@ -0,0 +1,298 @@
+import { AudioSettings, AutomationSettings, ProcessingSettings, RetentionSettings, ScheduleSettings } from '../types';
+import { isValidTimeZone } from './schedule';
+import { sensitivityFromLegacy } from './voiceDetector';
+
+/**
+ * Version 1 of the profile format:
+ *
+ *   { "v": 1, "name": "warehouse", "audio": { ... }, "automation": { ... } }
+ *
+ * Profiles leave out the device's own identity (trigger topic and name) and
+ * its microphone, so one profile can be rolled out to many devices. Fields a profile does not
+ * mention keep their defaults, which is how older files pick up settings
+ * added since they were written.
+ */
+export const PROFILE_VERSION = 1;
+
+const DEVICE_AUDIO_FIELDS = ['deviceId'] as const;
+const DEVICE_AUTOMATION_FIELDS = ['remoteTriggerId', 'deviceName'] as const;
+
+export type ProfileAudio = Omit<AudioSettings, typeof DEVICE_AUDIO_FIELDS[number]>;
+export type ProfileAutomation = Omit<AutomationSettings, typeof DEVICE_AUTOMATION_FIELDS[number]>;
+
+export interface SettingsProfile {
+  name: string;
+  audio: ProfileAudio;
+  automation: ProfileAutomation;
+}
+
+/** Everything a profile applies to. */
+export interface DeviceSettings {
+  audio: AudioSettings;
+  automation: AutomationSettings;
+}
+
+export class SettingsError extends Error {
+  constructor(message: string, readonly issues: string[] = []) {
+    super(issues.length ? `${message}: ${issues.join(', ')}` : message);
+    this.name = 'SettingsError';
+  }
+}
+
+type Field = (value: unknown) => boolean;
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const number = (min = -Infinity, max = Infinity): Field => value => isNumber(value) && value >= min && value <= max;
+const oneOf = (...options: string[]): Field => value => typeof value === 'string' && options.includes(value);
+const bool: Field = value => typeof value === 'boolean';
+const text: Field = value => typeof value === 'string';
+const nonEmpty: Field = value => typeof value === 'string' && value.trim() !== '';
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+const listOf = (item: (value: Record<string, unknown>) => boolean): Field => value =>
+  Array.isArray(value) && value.every(v => isObject(v) && item(v));
+const headers = listOf(h => text(h.name) && text(h.value));
+const minuteOfDay = number(0, 24 * 60 - 1);
+const weeklyWindows = listOf(w =>
+  nonEmpty(w.id) && Array.isArray(w.days) && w.days.every(number(0, 6)) && minuteOfDay(w.start) && minuteOfDay(w.end));
+const oneOffWindows = listOf(w => nonEmpty(w.id) && number(0)(w.start) && number(0)(w.end));
+
+// Keyed by every settings field, so the compiler flags a field added to the
+// types but not here.
+const AUDIO_FIELDS: Record<keyof AudioSettings, Field> = {
+  captureMode: oneOf('vad', 'push-to-talk', 'manual', 'timed'),
+  timedDuration: number(1),
+  detector: oneOf('energy-band', 'level'),
+  sensitivity: number(0, 100),
+  silenceTimeout: number(0),
+  preRoll: number(0),
+  postRoll: number(0),
+  minSpeechDuration: number(0),
+  hysteresis: number(0),
+  calibrationDuration: number(0),
+  outputFormat: oneOf('auto', 'webm', 'ogg', 'mp4', 'wav'),
+  autoStart: bool,
+  halfDuplex: bool,
+  playbackTail: number(0),
+  deviceId: text,
+  echoCancellation: bool,
+  noiseSuppression: bool,
+  autoGainControl: bool,
+  channelCount: number(1, 2),
+  sampleRate: number(0),
+  maxSegmentDuration: number(0),
+  highPassFrequency: number(0, 1000),
+  gateThreshold: number(-100, 0),
+  compressorThreshold: number(-100, 0),
+  compressorRatio: number(1, 20),
+  makeupGain: number(0, 24),
+  normalizeTarget: number(-60, 0)
+};
+
+const AUTOMATION_FIELDS: Record<keyof AutomationSettings, Field> = {
+  remoteTriggerId: nonEmpty,
+  triggerTransport: oneOf('ntfy', 'sse', 'websocket', 'mqtt'),
+  ntfyBaseUrl: text,
+  ntfyToken: text,
+  triggerUrl: text,
+  mqttUrl: text,
+  mqttUsername: text,
+  mqttPassword: text,
+  replyTopic: text,
+  webhookUrl: text,
+  deviceName: text,
+  payloadShape: oneOf('multipart', 'json'),
+  authType: oneOf('none', 'bearer', 'basic'),
+  authToken: text,
+  authUsername: text,
+  authPassword: text,
+  customHeaders: headers,
+  signingSecret: text,
+  streamMode: oneOf('off', 'http', 'websocket'),
+  streamUrl: text,
+  streamTimeslice: number(0)
+};
+
+const PROCESSING_FIELDS: Record<keyof ProcessingSettings, Field> = {
+  transcriptionProvider: oneOf('none', 'openai', 'whisper-cpp'),
+  transcriptionUrl: text,
+  transcriptionApiKey: text,
+  transcriptionModel: text,
+  language: text,
+  summaryProvider: oneOf('none', 'openai'),
+  summaryUrl: text,
+  summaryApiKey: text,
+  summaryModel: text,
+  summaryPrompt: text
+};
+
+const SCHEDULE_FIELDS: Record<keyof ScheduleSettings, Field> = {
+  enabled: bool,
+  timeZone: value => text(value) && isValidTimeZone(value as string),
+  windows: weeklyWindows,
+  oneOff: oneOffWindows,
+  quietHours: weeklyWindows
+};
+
+const RETENTION_FIELDS: Record<keyof RetentionSettings, Field> = {
+  maxAgeDays: number(0),
+  maxSizeMB: number(0),
+  maxCount: number(0)
+};
+
+/**
+ * Copies the known, valid fields over the defaults. Missing fields are
+ * fine; invalid ones keep the default and are listed in `issues`.
+ */
+function sanitize<T extends object>(fields: Record<keyof T, Field>, raw: unknown, defaults: T, path: string, issues: string[]): T {
+  if (!isObject(raw)) {
+    if (raw !== undefined) issues.push(path);
+    return defaults;
+  }
+  const result = { ...defaults };
+  (Object.keys(fields) as (keyof T)[]).forEach(key => {
+    const value = raw[key as string];
+    if (value === undefined) return;
+    if (fields[key](value)) result[key] = value as T[keyof T];
+    else issues.push(`${path}.${String(key)}`);
+  });
+  return result;
+}
+
+/**
+ * Audio settings saved before there was a choice of detector were tuned
+ * against the fixed level threshold; their sensitivity is carried over to
+ * the energy-band detector that replaces it.
+ */
+function upgradeAudio(audio: unknown): unknown {
+  if (!isObject(audio) || audio.detector !== undefined || !isNumber(audio.sensitivity)) return audio;
+  return { ...audio, sensitivity: sensitivityFromLegacy(audio.sensitivity) };
+}
+
+/**
+ * Reads settings kept in localStorage. A corrupt entry or bad field falls
+ * back to the defaults instead of taking the app down with it.
+ */
+function restore<T extends object>(
+  fields: Record<keyof T, Field>,
+  stored: string | null,
+  defaults: T,
+  label: string,
+  upgrade: (raw: unknown) => unknown = raw => raw
+): T {
+  if (stored === null) return defaults;
+  let raw: unknown;
+  try {
+    raw = JSON.parse(stored);
+  } catch (e) {
+    console.warn(`Stored ${label} settings are corrupt, using defaults`);
+    return defaults;
+  }
+  const issues: string[] = [];
+  const settings = sanitize(fields, upgrade(raw), defaults, label, issues);
+  if (issues.length) console.warn(`Reset invalid stored settings: ${issues.join(', ')}`);
+  return settings;
+}
+
+export const restoreAudioSettings = (stored: string | null, defaults: AudioSettings) =>
+  restore(AUDIO_FIELDS, stored, defaults, 'audio', upgradeAudio);
+
+export const restoreAutomationSettings = (stored: string | null, defaults: AutomationSettings) =>
+  restore(AUTOMATION_FIELDS, stored, defaults, 'automation');
+
+export const restoreProcessingSettings = (stored: string | null, defaults: ProcessingSettings) =>
+  restore(PROCESSING_FIELDS, stored, defaults, 'processing');
+
+export const restoreScheduleSettings = (stored: string | null, defaults: ScheduleSettings) =>
+  restore(SCHEDULE_FIELDS, stored, defaults, 'schedule');
+
+export const restoreRetentionSettings = (stored: string | null, defaults: RetentionSettings) =>
+  restore(RETENTION_FIELDS, stored, defaults, 'retention');
+
+/**
+ * Upgrades a document to the next version, keyed by the version it
+ * produces. Version 0 is a bare AudioSettings object, as kept in
+ * localStorage before profiles existed.
+ */
+const MIGRATIONS: Record<number, (doc: Record<string, unknown>) => Record<string, unknown>> = {
+  1: (doc) => ({ name: 'Imported', audio: doc })
+};
+
+function migrate(doc: Record<string, unknown>): Record<string, unknown> {
+  const from = doc.v === undefined ? 0 : doc.v;
+  if (!isNumber(from) || !Number.isInteger(from) || from < 0) throw new SettingsError(`Unknown profile version: ${String(from)}`);
+  if (from > PROFILE_VERSION) throw new SettingsError(`Profile version ${from} is newer than this app supports`);
+  let current = doc;
+  for (let v = from + 1; v <= PROFILE_VERSION; v++) current = MIGRATIONS[v](current);
+  return current;
+}
+
+/**
+ * Validates a profile from a file, a remote command or storage. Unlike the
+ * stored settings, anything invalid rejects the whole profile.
+ */
+export function parseProfile(input: unknown, defaults: DeviceSettings): SettingsProfile {
+  let raw = input;
+  if (typeof raw === 'string') {
+    try {
+      raw = JSON.parse(raw);
+    } catch (e) {
+      throw new SettingsError('Profile is not valid JSON');
+    }
+  }
+  if (!isObject(raw)) throw new SettingsError('Profile must be a JSON object');
+  const doc = migrate(raw);
+
+  const issues: string[] = [];
+  if (!nonEmpty(doc.name)) issues.push('name');
+  const audio = sanitize(AUDIO_FIELDS, upgradeAudio(doc.audio), defaults.audio, 'audio', issues);
+  const automation = sanitize(AUTOMATION_FIELDS, doc.automation, defaults.automation, 'automation', issues);
+  if (issues.length) throw new SettingsError('Invalid profile', issues);
+  return createProfile(doc.name as string, audio, automation);
+}
+
+function without<T extends object, K extends keyof T>(settings: T, fields: readonly K[]): Omit<T, K> {
+  const rest = { ...settings };
+  fields.forEach(field => delete rest[field]);
+  return rest;
+}
+
+export function createProfile(name: string, audio: AudioSettings, automation: AutomationSettings): SettingsProfile {
+  return {
+    name: name.trim(),
+    audio: without(audio, DEVICE_AUDIO_FIELDS),
+    automation: without(automation, DEVICE_AUTOMATION_FIELDS)
+  };
+}
+
+/** The device's settings with the profile applied; its identity and microphone stay. */
+export const applyProfile = (profile: SettingsProfile, device: DeviceSettings): DeviceSettings => ({
+  audio: { ...device.audio, ...profile.audio },
+  automation: { ...device.automation, ...profile.automation }
+});
+
+export const serializeProfile = (profile: SettingsProfile) =>
+  JSON.stringify({ v: PROFILE_VERSION, ...profile }, null, 2);
+
+/** Saved profiles; entries that no longer validate are dropped with a warning. */
+export function restoreProfiles(stored: string | null, defaults: DeviceSettings): SettingsProfile[] {
+  if (stored === null) return [];
+  try {
+    const docs = JSON.parse(stored);
+    if (!Array.isArray(docs)) throw new SettingsError('Stored profiles are not a list');
+    return docs.flatMap(doc => {
+      try {
+        return [parseProfile(doc, defaults)];
+      } catch (e) {
+        console.warn(`Dropped stored profile: ${e instanceof Error ? e.message : String(e)}`);
+        return [];
+      }
+    });
+  } catch (e) {
+    console.warn(`Stored profiles are corrupt: ${e instanceof Error ? e.message : String(e)}`);
+    return [];
+  }
+}
+
+export const storeProfiles = (profiles: SettingsProfile[]) =>
+  JSON.stringify(profiles.map(profile => ({ v: PROFILE_VERSION, ...profile })));
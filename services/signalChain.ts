@@ -0,0 +1,77 @@
+import { AudioSettings } from '../types';
+import noiseGateWorkletUrl from '../worklets/noiseGateProcessor.ts?worker&url';
+import { NOISE_GATE_PROCESSOR_NAME, NoiseGateCommand } from '../worklets/vadProtocol';
+
+/** What the input monitor plays: nothing, the raw input or the processed one. */
+export type MonitorMode = 'off' | 'raw' | 'processed';
+
+/**
+ * High-pass, noise gate, compressor and makeup gain between `input` and
+ * `output`. Stages that are turned off are left out of the graph rather
+ * than set to pass through.
+ */
+export interface SignalChain {
+  readonly input: AudioNode;
+  readonly output: AudioNode;
+  configure(settings: AudioSettings): void;
+  dispose(): void;
+}
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+/** Loads the gate's worklet; once per context, before creating chains. */
+export const loadSignalChain = (ctx: BaseAudioContext) => ctx.audioWorklet.addModule(noiseGateWorkletUrl);
+
+export function createSignalChain(ctx: AudioContext, settings: AudioSettings): SignalChain {
+  const input = ctx.createGain();
+  const output = ctx.createGain();
+  const highPass = ctx.createBiquadFilter();
+  highPass.type = 'highpass';
+  highPass.Q.value = Math.SQRT1_2;
+  const gate = new AudioWorkletNode(ctx, NOISE_GATE_PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    processorOptions: { threshold: settings.gateThreshold }
+  });
+  const compressor = ctx.createDynamicsCompressor();
+  compressor.knee.value = 6;
+  compressor.attack.value = 0.003;
+  compressor.release.value = 0.25;
+  const makeup = ctx.createGain();
+  makeup.connect(output);
+
+  // Rewired only when a stage is switched on or off; a slider moving
+  // mid-segment just adjusts the parameters.
+  let wiring = '';
+
+  const configure = (next: AudioSettings) => {
+    highPass.frequency.value = Math.max(next.highPassFrequency, 10);
+    gate.port.postMessage({ type: 'configure', threshold: next.gateThreshold } satisfies NoiseGateCommand);
+    compressor.threshold.value = next.compressorThreshold;
+    compressor.ratio.value = next.compressorRatio;
+    makeup.gain.value = dbToGain(next.makeupGain);
+
+    const enabled = [next.highPassFrequency > 0, next.gateThreshold < 0, next.compressorThreshold < 0];
+    const key = enabled.join(',');
+    if (key === wiring) return;
+    wiring = key;
+    [input, highPass, gate, compressor].forEach(node => node.disconnect());
+    const stages: AudioNode[] = [highPass, gate, compressor].filter((_, i) => enabled[i]);
+    [input, ...stages].reduce((from, to) => {
+      from.connect(to);
+      return to;
+    }).connect(makeup);
+  };
+
+  configure(settings);
+
+  return {
+    input,
+    output,
+    configure,
+    dispose() {
+      gate.port.close();
+      [input, highPass, gate, compressor, makeup, output].forEach(node => node.disconnect());
+    }
+  };
+}
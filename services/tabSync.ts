@@ -0,0 +1,73 @@
+import { RecorderStatus, Session } from '../types';
+
+const CHANNEL_NAME = 'voiceflow';
+const LEADER_LOCK = 'voiceflow-leader';
+
+/** What a follower tab shows in place of its own idle recorder. */
+export interface RecorderSnapshot {
+  status: RecorderStatus;
+  currentVolume: number;
+  voiceThreshold: number;
+  isCalibrating: boolean;
+  silenceProgress: number;
+  recordingDuration: number;
+  isContinuous: boolean;
+  isPaused: boolean;
+}
+
+/** Archive writes one tab made, for the others to read back. */
+export interface ArchiveChange {
+  saved: string[];
+  removed: string[];
+  sessions: Session[];
+}
+
+export type TabMessage =
+  | { type: 'recorder'; snapshot: RecorderSnapshot }
+  | { type: 'snapshot-request' }
+  | { type: 'archive'; change: ArchiveChange }
+  | { type: 'archive-key' }; // encryption was turned on, off or re-keyed
+
+let channel: BroadcastChannel | null = null;
+
+function getChannel() {
+  if (!channel && typeof BroadcastChannel !== 'undefined') channel = new BroadcastChannel(CHANNEL_NAME);
+  return channel;
+}
+
+/** Sends to every other tab of the app; the sender does not receive it. */
+export function postTabMessage(message: TabMessage) {
+  getChannel()?.postMessage(message);
+}
+
+export function onTabMessage(handler: (message: TabMessage) => void): () => void {
+  const current = getChannel();
+  if (!current) return () => {};
+  const listener = (event: MessageEvent<TabMessage>) => handler(event.data);
+  current.addEventListener('message', listener);
+  return () => current.removeEventListener('message', listener);
+}
+
+/**
+ * Queues for the leader lock and calls `onElected` once this tab holds it.
+ * The browser releases the lock when the tab closes, which elects the next
+ * tab in line. Without Web Locks every tab leads, as before.
+ */
+export function electLeader(onElected: () => void): () => void {
+  if (!navigator.locks) {
+    onElected();
+    return () => {};
+  }
+  const controller = new AbortController();
+  let release = () => {};
+  navigator.locks
+    .request(LEADER_LOCK, { signal: controller.signal }, () => new Promise<void>(resolve => {
+      release = resolve;
+      onElected();
+    }))
+    .catch(() => { /* aborted while still queued */ });
+  return () => {
+    controller.abort();
+    release();
+  };
+}
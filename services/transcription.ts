@@ -0,0 +1,118 @@
+import { ProcessingSettings, Recording, SummaryProviderType, TranscriptionProviderType } from '../types';
+import { recordingFilename } from './audioFormats';
+
+export interface TranscriptionProvider {
+  transcribe(recording: Recording, signal?: AbortSignal): Promise<string>;
+}
+
+export interface SummaryProvider {
+  summarize(transcript: string, signal?: AbortSignal): Promise<string>;
+}
+
+export const DEFAULT_OPENAI_URL = 'https://api.openai.com/v1';
+export const DEFAULT_WHISPER_CPP_URL = 'http://127.0.0.1:8080';
+export const DEFAULT_SUMMARY_PROMPT =
+  'Summarise this voice note in one or two sentences. Reply with the summary only.';
+
+const trimUrl = (url: string, fallback: string) => (url.trim() || fallback).replace(/\/+$/, '');
+
+const authHeaders = (apiKey: string): Record<string, string> =>
+  apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+
+async function readError(res: Response): Promise<string> {
+  try {
+    const body = await res.json();
+    return body?.error?.message || body?.error || `HTTP ${res.status}`;
+  } catch (e) {
+    return `HTTP ${res.status}`;
+  }
+}
+
+async function postTranscription(url: string, form: FormData, headers: Record<string, string>, signal?: AbortSignal) {
+  const res = await fetch(url, { method: 'POST', body: form, headers, signal });
+  if (!res.ok) throw new Error(await readError(res));
+  const body = await res.json();
+  if (typeof body?.text !== 'string') throw new Error('Response has no text');
+  return body.text.trim();
+}
+
+/** Any server implementing OpenAI's `POST /audio/transcriptions`. */
+function createOpenAiTranscriber(settings: ProcessingSettings): TranscriptionProvider {
+  return {
+    transcribe(recording, signal) {
+      const form = new FormData();
+      form.append('file', recording.blob, recordingFilename(recording));
+      form.append('model', settings.transcriptionModel.trim() || 'whisper-1');
+      form.append('response_format', 'json');
+      if (settings.language.trim()) form.append('language', settings.language.trim());
+      return postTranscription(
+        `${trimUrl(settings.transcriptionUrl, DEFAULT_OPENAI_URL)}/audio/transcriptions`,
+        form, authHeaders(settings.transcriptionApiKey), signal
+      );
+    }
+  };
+}
+
+/**
+ * The whisper.cpp example server (`POST /inference`). It only reads WAV
+ * unless started with `--convert`, which needs ffmpeg on the host.
+ */
+function createWhisperCppTranscriber(settings: ProcessingSettings): TranscriptionProvider {
+  return {
+    transcribe(recording, signal) {
+      const form = new FormData();
+      form.append('file', recording.blob, recordingFilename(recording));
+      form.append('response_format', 'json');
+      form.append('temperature', '0');
+      if (settings.language.trim()) form.append('language', settings.language.trim());
+      return postTranscription(
+        `${trimUrl(settings.transcriptionUrl, DEFAULT_WHISPER_CPP_URL)}/inference`,
+        form, authHeaders(settings.transcriptionApiKey), signal
+      );
+    }
+  };
+}
+
+/** OpenAI-style `POST /chat/completions`, which llama.cpp and Ollama also serve. */
+function createOpenAiSummarizer(settings: ProcessingSettings): SummaryProvider {
+  return {
+    async summarize(transcript, signal) {
+      const res = await fetch(`${trimUrl(settings.summaryUrl, DEFAULT_OPENAI_URL)}/chat/completions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...authHeaders(settings.summaryApiKey) },
+        body: JSON.stringify({
+          model: settings.summaryModel.trim() || 'gpt-4o-mini',
+          messages: [
+            { role: 'system', content: settings.summaryPrompt.trim() || DEFAULT_SUMMARY_PROMPT },
+            { role: 'user', content: transcript }
+          ]
+        }),
+        signal
+      });
+      if (!res.ok) throw new Error(await readError(res));
+      const body = await res.json();
+      const content = body?.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') throw new Error('Response has no summary');
+      return content.trim();
+    }
+  };
+}
+
+export const TRANSCRIPTION_PROVIDERS: Record<Exclude<TranscriptionProviderType, 'none'>, (settings: ProcessingSettings) => TranscriptionProvider> = {
+  openai: createOpenAiTranscriber,
+  'whisper-cpp': createWhisperCppTranscriber
+};
+
+export const SUMMARY_PROVIDERS: Record<Exclude<SummaryProviderType, 'none'>, (settings: ProcessingSettings) => SummaryProvider> = {
+  openai: createOpenAiSummarizer
+};
+
+export function createTranscriber(settings: ProcessingSettings): TranscriptionProvider | null {
+  if (settings.transcriptionProvider === 'none') return null;
+  return TRANSCRIPTION_PROVIDERS[settings.transcriptionProvider]?.(settings) ?? null;
+}
+
+export function createSummarizer(settings: ProcessingSettings): SummaryProvider | null {
+  if (settings.summaryProvider === 'none') return null;
+  return SUMMARY_PROVIDERS[settings.summaryProvider]?.(settings) ?? null;
+}
@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AutomationSettings } from '../types';
+import { TransportState, createTriggerTransport, endpointProblem } from './triggerTransport';
+
+const settings = (overrides: Partial<AutomationSettings>) => ({
+  remoteTriggerId: 'vf-test',
+  triggerTransport: 'ntfy',
+  ntfyBaseUrl: '',
+  ntfyToken: '',
+  triggerUrl: '',
+  mqttUrl: '',
+  mqttUsername: '',
+  mqttPassword: '',
+  replyTopic: '',
+  ...overrides
+} as AutomationSettings);
+
+function start(automation: AutomationSettings) {
+  const states: [TransportState, string | undefined][] = [];
+  const transport = createTriggerTransport(automation, {
+    onMessage: () => {},
+    onStateChange: (state, detail) => states.push([state, detail])
+  });
+  transport.start();
+  return states;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('endpointProblem', () => {
+  it('flags empty, partial and wrong-scheme addresses', () => {
+    expect(endpointProblem(settings({ triggerTransport: 'websocket', triggerUrl: '' }))).toMatch(/not set/);
+    expect(endpointProblem(settings({ triggerTransport: 'websocket', triggerUrl: 'ws:/' }))).not.toBeNull();
+    expect(endpointProblem(settings({ triggerTransport: 'websocket', triggerUrl: 'w' }))).toMatch(/not valid/);
+    expect(endpointProblem(settings({ triggerTransport: 'sse', triggerUrl: 'wss://host/feed' }))).toMatch(/http/);
+    expect(endpointProblem(settings({ triggerTransport: 'mqtt', mqttUrl: 'http://' }))).not.toBeNull();
+  });
+
+  it('accepts complete addresses', () => {
+    expect(endpointProblem(settings({ triggerTransport: 'websocket', triggerUrl: 'wss://host/feed' }))).toBeNull();
+    expect(endpointProblem(settings({ triggerTransport: 'mqtt', mqttUrl: 'ws://broker:8080/mqtt' }))).toBeNull();
+    expect(endpointProblem(settings({ triggerTransport: 'ntfy' }))).toBeNull();
+  });
+});
+
+describe('createTriggerTransport', () => {
+  it('reports an unusable address instead of throwing', () => {
+    const states = start(settings({ triggerTransport: 'mqtt', mqttUrl: '' }));
+    expect(states).toEqual([['connecting', undefined], ['disconnected', 'Broker URL not set']]);
+  });
+
+  it('reports a constructor that throws instead of letting it escape', () => {
+    vi.stubGlobal('WebSocket', class {
+      constructor() {
+        throw new SyntaxError('The URL is invalid');
+      }
+    });
+    const states = start(settings({ triggerTransport: 'websocket', triggerUrl: 'wss://host/feed' }));
+    expect(states.at(-1)).toEqual(['disconnected', 'The URL is invalid']);
+  });
+});
@@ -0,0 +1,265 @@
+import { AutomationSettings } from '../types';
+import { connectMqtt } from './mqttSocket';
+
+export type TransportState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
+
+export interface TransportHandlers {
+  onMessage: (payload: string) => void;
+  onStateChange: (state: TransportState, detail?: string) => void;
+}
+
+export interface TriggerTransport {
+  /** Human readable address that remote senders publish to. */
+  readonly endpoint: string;
+  start(): void;
+  stop(): void;
+  /** Publishes to the reply channel; rejects when there is none. */
+  reply(payload: string): Promise<void>;
+}
+
+// One live connection. `open` reports back through the link; `send` is set
+// when replies travel over the same connection.
+interface Connection {
+  close: () => void;
+  send?: (payload: string) => void;
+}
+
+interface Link {
+  opened: () => void;
+  message: (data: string) => void;
+  failed: (reason: string) => void;
+}
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+export const DEFAULT_NTFY_BASE_URL = 'https://ntfy.sh';
+
+/**
+ * Pulls the trigger payload out of a message. ntfy-style JSON carries it in
+ * `attachment.url` or `message`; anything else is passed through as is.
+ */
+export function extractPayload(data: string): string | null {
+  try {
+    const parsed = JSON.parse(data);
+    if (parsed && typeof parsed === 'object') {
+      if ('event' in parsed && parsed.event !== 'message') return null;
+      const payload = parsed.attachment?.url || parsed.message?.trim?.() || parsed.payload;
+      if (payload) return String(payload);
+    }
+  } catch (e) {}
+  return data.trim() || null;
+}
+
+function withReconnect(
+  endpoint: string,
+  handlers: TransportHandlers,
+  open: (link: Link) => Connection,
+  replyOverHttp?: (payload: string) => Promise<void>
+): TriggerTransport {
+  let connection: Connection | null = null;
+  let connected = false;
+  let retryTimer: number | null = null;
+  let attempts = 0;
+  let running = false;
+
+  const connect = () => {
+    retryTimer = null;
+    handlers.onStateChange(attempts === 0 ? 'connecting' : 'reconnecting');
+    let settled = false;
+    const link: Link = {
+      opened: () => {
+        attempts = 0;
+        connected = true;
+        handlers.onStateChange('connected');
+      },
+      message: (data) => {
+        const payload = extractPayload(data);
+        if (payload) handlers.onMessage(payload);
+      },
+      failed: (reason) => {
+        if (settled || !running) return;
+        settled = true;
+        connected = false;
+        connection?.close();
+        connection = null;
+        attempts++;
+        const delay = Math.min(RECONNECT_BASE_MS * 2 ** (attempts - 1), RECONNECT_MAX_MS);
+        handlers.onStateChange('reconnecting', `${reason}, retry in ${Math.round(delay / 1000)}s`);
+        retryTimer = window.setTimeout(connect, delay);
+      }
+    };
+    try {
+      connection = open(link);
+    } catch (e) {
+      // Constructors throw on an address they cannot parse; retrying the
+      // same address would only throw again.
+      settled = true;
+      running = false;
+      connection = null;
+      handlers.onStateChange('disconnected', e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return {
+    endpoint,
+    start() {
+      if (running) return;
+      running = true;
+      attempts = 0;
+      connect();
+    },
+    stop() {
+      running = false;
+      if (retryTimer) window.clearTimeout(retryTimer);
+      retryTimer = null;
+      connected = false;
+      connection?.close();
+      connection = null;
+      handlers.onStateChange('disconnected');
+    },
+    async reply(payload) {
+      if (replyOverHttp) return replyOverHttp(payload);
+      if (!connected || !connection?.send) throw new Error('No reply channel');
+      connection.send(payload);
+    }
+  };
+}
+
+function openEventSource(url: string, link: Link): Connection {
+  const source = new EventSource(url);
+  source.onopen = () => link.opened();
+  source.onmessage = (event) => link.message(event.data);
+  // EventSource retries on its own at a fixed rate; take over so the
+  // backoff and state reporting stay consistent across transports.
+  source.onerror = () => link.failed('stream error');
+  return { close: () => source.close() };
+}
+
+function openWebSocket(url: string, link: Link): Connection {
+  const socket = new WebSocket(url);
+  socket.onopen = () => link.opened();
+  socket.onmessage = (event) => {
+    if (typeof event.data === 'string') link.message(event.data);
+  };
+  socket.onerror = () => link.failed('socket error');
+  socket.onclose = () => link.failed('socket closed');
+  return {
+    close: () => {
+      socket.onclose = null;
+      socket.close();
+    },
+    send: (payload) => socket.send(payload)
+  };
+}
+
+export const replyTopic = (settings: AutomationSettings) =>
+  settings.replyTopic.trim() || `${settings.remoteTriggerId}-reply`;
+
+const ntfyBase = (settings: AutomationSettings) =>
+  (settings.ntfyBaseUrl.trim() || DEFAULT_NTFY_BASE_URL).replace(/\/+$/, '');
+
+async function postReply(url: string, payload: string, headers: Record<string, string> = {}) {
+  const res = await fetch(url, { method: 'POST', body: payload, headers, mode: 'cors' });
+  if (!res.ok) throw new Error(`Reply HTTP ${res.status}`);
+}
+
+// ntfy accepts credentials as an `auth` query parameter holding the
+// base64url-encoded Authorization header, since EventSource cannot send headers.
+function ntfyUrl(settings: AutomationSettings): string {
+  const url = `${ntfyBase(settings)}/${encodeURIComponent(settings.remoteTriggerId)}/sse`;
+  if (!settings.ntfyToken) return url;
+  const auth = btoa(`Bearer ${settings.ntfyToken}`).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  return `${url}?auth=${auth}`;
+}
+
+export function triggerEndpoint(settings: AutomationSettings): string {
+  switch (settings.triggerTransport) {
+    case 'sse':
+    case 'websocket':
+      return settings.triggerUrl;
+    case 'mqtt':
+      return `${settings.mqttUrl} › ${settings.remoteTriggerId}`;
+    default:
+      return `${ntfyBase(settings)}/${settings.remoteTriggerId}`;
+  }
+}
+
+function urlProblem(url: string, protocols: string[], label: string): string | null {
+  if (!url.trim()) return `${label} URL not set`;
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch (e) {
+    return `${label} URL is not valid`;
+  }
+  return protocols.includes(parsed.protocol) ? null : `${label} URL must start with ${protocols.map(p => `${p}//`).join(' or ')}`;
+}
+
+/** Why the configured address cannot be connected to, if it cannot. */
+export function endpointProblem(settings: AutomationSettings): string | null {
+  switch (settings.triggerTransport) {
+    case 'sse':
+      return urlProblem(settings.triggerUrl, ['http:', 'https:'], 'Trigger');
+    case 'websocket':
+      return urlProblem(settings.triggerUrl, ['ws:', 'wss:'], 'Trigger');
+    case 'mqtt':
+      return urlProblem(settings.mqttUrl, ['ws:', 'wss:'], 'Broker');
+    default:
+      return urlProblem(ntfyBase(settings), ['http:', 'https:'], 'ntfy server');
+  }
+}
+
+export function createTriggerTransport(settings: AutomationSettings, handlers: TransportHandlers): TriggerTransport {
+  const endpoint = triggerEndpoint(settings);
+  // The socket and event-source constructors throw on such an address;
+  // reported the same way, without ever trying it.
+  const problem = endpointProblem(settings);
+  if (problem) {
+    return withReconnect(endpoint, handlers, () => {
+      throw new Error(problem);
+    });
+  }
+  switch (settings.triggerTransport) {
+    case 'sse': {
+      // A plain event stream has no way back; replies go to an HTTP URL.
+      const replyUrl = settings.replyTopic.trim();
+      return withReconnect(
+        endpoint, handlers,
+        link => openEventSource(settings.triggerUrl, link),
+        /^https?:\/\//.test(replyUrl) ? (payload) => postReply(replyUrl, payload) : undefined
+      );
+    }
+    case 'websocket':
+      return withReconnect(endpoint, handlers, link => openWebSocket(settings.triggerUrl, link));
+    case 'mqtt':
+      return withReconnect(endpoint, handlers, link => {
+        const connection = connectMqtt(settings.mqttUrl, {
+          clientId: `${settings.remoteTriggerId}-${Math.random().toString(36).substring(2, 8)}`,
+          username: settings.mqttUsername || undefined,
+          password: settings.mqttPassword || undefined
+        }, {
+          onConnect: () => {
+            connection.subscribe(settings.remoteTriggerId);
+            link.opened();
+          },
+          onMessage: (_topic, payload) => link.message(payload),
+          onClose: (reason) => link.failed(reason ?? 'broker closed')
+        });
+        return {
+          close: () => connection.close(),
+          send: (payload) => connection.publish(replyTopic(settings), payload)
+        };
+      });
+    default:
+      return withReconnect(
+        endpoint, handlers,
+        link => openEventSource(ntfyUrl(settings), link),
+        (payload) => postReply(
+          `${ntfyBase(settings)}/${encodeURIComponent(replyTopic(settings))}`,
+          payload,
+          settings.ntfyToken ? { Authorization: `Bearer ${settings.ntfyToken}` } : {}
+        )
+      );
+  }
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { AudioSettings } from '../types';
+import {
+  REFERENCE_NOISE_FLOOR,
+  createLevelDetector,
+  expectedThresholdDb,
+  legacyThresholdDb,
+  sensitivityFromLegacy
+} from './voiceDetector';
+import { restoreAudioSettings } from './settingsProfiles';
+
+const SETTINGS = {
+  detector: 'energy-band',
+  sensitivity: 25,
+  minSpeechDuration: 0,
+  hysteresis: 0,
+  calibrationDuration: 0
+} as AudioSettings;
+
+describe('sensitivity on the two detectors', () => {
+  it('keeps the level detector on the old fixed threshold', () => {
+    expect(legacyThresholdDb(0)).toBe(-100);
+    expect(legacyThresholdDb(25)).toBeCloseTo(-75.49, 2);
+    expect(legacyThresholdDb(50)).toBeCloseTo(-50.98, 2);
+    expect(legacyThresholdDb(100)).toBeCloseTo(-1.96, 2);
+
+    const detector = createLevelDetector({ ...SETTINGS, detector: 'level', sensitivity: 50 });
+    const frame = { samples: new Float32Array(128), sampleRate: 48000, timestamp: 0 };
+    expect(detector.process(frame).threshold).toBeCloseTo(-50.98, 2);
+  });
+
+  it('converts an old sensitivity to one opening at the same level over a quiet room', () => {
+    expect(REFERENCE_NOISE_FLOOR).toBe(-70);
+    expect(sensitivityFromLegacy(50)).toBe(53);
+    expect(expectedThresholdDb({ ...SETTINGS, sensitivity: sensitivityFromLegacy(50) })).toBeCloseTo(legacyThresholdDb(50), 0);
+    expect(sensitivityFromLegacy(60)).toBe(86);
+    expect(expectedThresholdDb({ ...SETTINGS, sensitivity: sensitivityFromLegacy(60) })).toBeCloseTo(legacyThresholdDb(60), 0);
+  });
+
+  it('clamps levels at or below the floor, and far above it, to the ends of the range', () => {
+    expect(sensitivityFromLegacy(25)).toBe(0);
+    expect(sensitivityFromLegacy(100)).toBe(100);
+  });
+
+  it('converts stored settings from before the detector could be chosen, once', () => {
+    const defaults = { ...SETTINGS, silenceTimeout: 1500 } as AudioSettings;
+    const legacy = restoreAudioSettings(JSON.stringify({ sensitivity: 50, silenceTimeout: 900 }), defaults);
+    expect(legacy).toMatchObject({ detector: 'energy-band', sensitivity: 53, silenceTimeout: 900 });
+
+    expect(restoreAudioSettings(JSON.stringify(legacy), defaults).sensitivity).toBe(53);
+    expect(restoreAudioSettings(JSON.stringify({ detector: 'level', sensitivity: 50 }), defaults).sensitivity).toBe(50);
+  });
+});
@@ -0,0 +1,241 @@
+import { AudioSettings, DetectorType } from '../types';
+
+export interface DetectorFrame {
+  samples: Float32Array; // mono PCM, -1..1
+  sampleRate: number;
+  timestamp: number; // ms, monotonic
+}
+
+export interface DetectorState {
+  isSpeech: boolean;
+  level: number; // dBFS
+  threshold: number; // dBFS level that opens a segment
+  noiseFloor: number; // dBFS
+  calibrating: boolean;
+}
+
+/**
+ * A voice activity detector consumes consecutive PCM frames and reports
+ * whether speech is present. Implementations must not touch the DOM so they
+ * can also run inside an AudioWorklet.
+ */
+export interface VoiceDetector {
+  configure(settings: AudioSettings): void;
+  process(frame: DetectorFrame): DetectorState;
+  /** Clears all state and, where supported, restarts calibration. */
+  reset(): void;
+}
+
+export const MIN_DB = -100;
+
+export const toDb = (rms: number) => rms > 0 ? Math.max(MIN_DB, 20 * Math.log10(rms)) : MIN_DB;
+
+/** Maps dBFS onto the 0-255 scale the UI has always drawn levels with. */
+export const toDisplayLevel = (db: number) =>
+  Math.min(255, Math.max(0, ((db - MIN_DB) / -MIN_DB) * 255));
+
+const rms = (samples: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return samples.length ? Math.sqrt(sum / samples.length) : 0;
+};
+
+/** RBJ cookbook biquad, direct form I. */
+class Biquad {
+  private b0 = 1; private b1 = 0; private b2 = 0; private a1 = 0; private a2 = 0;
+  private x1 = 0; private x2 = 0; private y1 = 0; private y2 = 0;
+  private sampleRate = 0;
+
+  constructor(private type: 'highpass' | 'lowpass', private frequency: number, private q = Math.SQRT1_2) {}
+
+  private design(sampleRate: number) {
+    this.sampleRate = sampleRate;
+    const w0 = 2 * Math.PI * Math.min(this.frequency, sampleRate / 2 - 1) / sampleRate;
+    const cos = Math.cos(w0);
+    const alpha = Math.sin(w0) / (2 * this.q);
+    const a0 = 1 + alpha;
+    if (this.type === 'highpass') {
+      this.b0 = ((1 + cos) / 2) / a0;
+      this.b1 = -(1 + cos) / a0;
+      this.b2 = ((1 + cos) / 2) / a0;
+    } else {
+      this.b0 = ((1 - cos) / 2) / a0;
+      this.b1 = (1 - cos) / a0;
+      this.b2 = ((1 - cos) / 2) / a0;
+    }
+    this.a1 = (-2 * cos) / a0;
+    this.a2 = (1 - alpha) / a0;
+  }
+
+  process(input: Float32Array, sampleRate: number): Float32Array {
+    if (sampleRate !== this.sampleRate) this.design(sampleRate);
+    const out = new Float32Array(input.length);
+    for (let i = 0; i < input.length; i++) {
+      const x = input[i];
+      const y = this.b0 * x + this.b1 * this.x1 + this.b2 * this.x2 - this.a1 * this.y1 - this.a2 * this.y2;
+      this.x2 = this.x1; this.x1 = x;
+      this.y2 = this.y1; this.y1 = y;
+      out[i] = y;
+    }
+    return out;
+  }
+
+  reset() {
+    this.x1 = this.x2 = this.y1 = this.y2 = 0;
+  }
+}
+
+// Sensitivity 0-100 maps to how far above the noise floor speech must rise.
+const marginFromSensitivity = (sensitivity: number) => 3 + sensitivity * 0.3;
+
+/**
+ * The floor assumed for a quiet room until calibration has measured one.
+ * Converting a level-detector sensitivity goes through it too.
+ */
+export const REFERENCE_NOISE_FLOOR = -70;
+
+/**
+ * Sensitivity once meant a fixed level of `sensitivity * 2.5` on the 0-255
+ * display scale; the level detector still reads it that way.
+ */
+export const legacyThresholdDb = (sensitivity: number) => MIN_DB + (sensitivity * 2.5 / 255) * -MIN_DB;
+
+/**
+ * The energy-band sensitivity that opens at the same level as `sensitivity`
+ * did on the level detector, over the reference floor. Levels too close to
+ * the floor or too far above it are clamped to the ends of the range.
+ */
+export const sensitivityFromLegacy = (sensitivity: number) => {
+  const margin = legacyThresholdDb(sensitivity) - REFERENCE_NOISE_FLOOR;
+  return Math.round(Math.min(100, Math.max(0, (margin - 3) / 0.3)));
+};
+
+/** Where the detector will open before it has heard anything, in dBFS. */
+export const expectedThresholdDb = (settings: AudioSettings) => settings.detector === 'level'
+  ? legacyThresholdDb(settings.sensitivity)
+  : REFERENCE_NOISE_FLOOR + marginFromSensitivity(settings.sensitivity);
+
+// Share of the frame energy that must sit in the 300-3400 Hz voice band.
+// Mains hum and HVAC rumble live almost entirely below it.
+const SPEECH_BAND_RATIO = 0.35;
+const NOISE_FLOOR_RISE_MS = 8000;
+const NOISE_FLOOR_FALL_MS = 1000;
+
+/**
+ * Energy detector gated on the speech band. Opens once the band level has
+ * stayed above `floor + margin` for `minSpeechDuration`, and closes only once
+ * it drops below `floor + margin - hysteresis`. The floor is measured during
+ * a calibration window and then tracks the room while nobody is talking.
+ */
+export function createEnergyBandDetector(initial: AudioSettings): VoiceDetector {
+  let settings = initial;
+  const highpass = new Biquad('highpass', 300);
+  const lowpass = new Biquad('lowpass', 3400);
+
+  let startedAt: number | null = null;
+  let lastTimestamp: number | null = null;
+  let calibrationLevels: number[] = [];
+  let noiseFloor: number | null = null;
+  let candidateSince: number | null = null;
+  let isSpeech = false;
+
+  const reset = () => {
+    highpass.reset();
+    lowpass.reset();
+    startedAt = null;
+    lastTimestamp = null;
+    calibrationLevels = [];
+    noiseFloor = null;
+    candidateSince = null;
+    isSpeech = false;
+  };
+
+  return {
+    configure(next) {
+      settings = next;
+    },
+
+    reset,
+
+    process({ samples, sampleRate, timestamp }) {
+      if (startedAt === null) startedAt = timestamp;
+      const dt = lastTimestamp === null ? 0 : Math.max(0, timestamp - lastTimestamp);
+      lastTimestamp = timestamp;
+
+      const totalRms = rms(samples);
+      const bandRms = rms(lowpass.process(highpass.process(samples, sampleRate), sampleRate));
+      const level = toDb(bandRms);
+      const inBand = totalRms > 0 && (bandRms * bandRms) / (totalRms * totalRms) >= SPEECH_BAND_RATIO;
+
+      const margin = marginFromSensitivity(settings.sensitivity);
+      const calibrating = timestamp - startedAt < settings.calibrationDuration;
+
+      if (calibrating) {
+        calibrationLevels.push(level);
+        const floor = noiseFloor ?? level;
+        return { isSpeech: false, level, threshold: floor + margin, noiseFloor: floor, calibrating };
+      }
+
+      if (noiseFloor === null) {
+        const sorted = [...calibrationLevels].sort((a, b) => a - b);
+        noiseFloor = sorted.length ? sorted[Math.floor(sorted.length / 2)] : level;
+        calibrationLevels = [];
+      }
+
+      const startThreshold = noiseFloor + margin;
+      const stopThreshold = startThreshold - settings.hysteresis;
+
+      if (isSpeech) {
+        if (level < stopThreshold) {
+          isSpeech = false;
+          candidateSince = null;
+        }
+      } else if (level >= startThreshold && inBand) {
+        if (candidateSince === null) candidateSince = timestamp;
+        if (timestamp - candidateSince >= settings.minSpeechDuration) isSpeech = true;
+      } else {
+        candidateSince = null;
+      }
+
+      // Only learn from frames that are clearly not speech, and follow drops
+      // faster than rises so a loud burst cannot drag the floor up.
+      if (!isSpeech && candidateSince === null && dt > 0) {
+        const tau = level > noiseFloor ? NOISE_FLOOR_RISE_MS : NOISE_FLOOR_FALL_MS;
+        noiseFloor += (level - noiseFloor) * (1 - Math.exp(-dt / tau));
+      }
+
+      return { isSpeech, level, threshold: startThreshold, noiseFloor, calibrating };
+    }
+  };
+}
+
+/**
+ * The original fixed threshold on overall level, kept for setups that were
+ * tuned against it.
+ */
+export function createLevelDetector(initial: AudioSettings): VoiceDetector {
+  let settings = initial;
+
+  return {
+    configure(next) {
+      settings = next;
+    },
+
+    reset() {},
+
+    process({ samples }) {
+      const level = toDb(rms(samples));
+      const threshold = legacyThresholdDb(settings.sensitivity);
+      return { isSpeech: level > threshold, level, threshold, noiseFloor: MIN_DB, calibrating: false };
+    }
+  };
+}
+
+export const DETECTORS: Record<DetectorType, (settings: AudioSettings) => VoiceDetector> = {
+  'energy-band': createEnergyBandDetector,
+  level: createLevelDetector
+};
+
+export function createDetector(settings: AudioSettings): VoiceDetector {
+  return (DETECTORS[settings.detector] ?? createEnergyBandDetector)(settings);
+}
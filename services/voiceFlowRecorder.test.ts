@@ -0,0 +1,396 @@
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { AudioSettings, RecorderStatus, Recording } from '../types';
+import { AudioInput, AudioSource, RecorderFactory } from './audioInput';
+import { SegmentRecorder } from './segmentRecorder';
+import { SegmentStream } from './segmentStream';
+import { Clock, VoiceFlowRecorder, VoiceFlowRecorderOptions } from './voiceFlowRecorder';
+import { VadCommand, VadEvent } from '../worklets/vadProtocol';
+
+const SAMPLE_RATE = 8000;
+const QUANTUM = 128;
+const SPEECH = 0.3;
+const SILENCE = 0;
+
+const SETTINGS: AudioSettings = {
+  captureMode: 'vad',
+  timedDuration: 30,
+  detector: 'level',
+  sensitivity: 60, // opens at about -41 dBFS
+  silenceTimeout: 500,
+  preRoll: 200,
+  postRoll: 100,
+  minSpeechDuration: 0,
+  hysteresis: 0,
+  calibrationDuration: 0,
+  outputFormat: 'auto',
+  autoStart: false,
+  halfDuplex: false,
+  playbackTail: 0,
+  deviceId: '',
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  channelCount: 1,
+  sampleRate: 0,
+  maxSegmentDuration: 0,
+  highPassFrequency: 0,
+  gateThreshold: 0,
+  compressorThreshold: 0,
+  compressorRatio: 4,
+  makeupGain: 0,
+  normalizeTarget: 0
+};
+
+interface WorkletProcessor {
+  port: { onmessage: ((e: { data: VadCommand }) => void) | null };
+  process(inputs: Float32Array[][]): boolean;
+}
+type ProcessorClass = new (options: { processorOptions: { settings: AudioSettings } }) => WorkletProcessor;
+
+const scope = globalThis as Record<string, unknown>;
+let VadProcessor: ProcessorClass;
+// Where the worklet's port delivers; set by each microphone as it opens.
+let deliver: (event: VadEvent) => void = () => {};
+
+// The real detector worklet, run on the test thread with the globals an
+// AudioWorkletGlobalScope would provide.
+beforeAll(async () => {
+  scope.sampleRate = SAMPLE_RATE;
+  scope.currentFrame = 0;
+  scope.AudioWorkletProcessor = class {
+    port = {
+      onmessage: null as ((e: { data: VadCommand }) => void) | null,
+      postMessage: (event: VadEvent) => deliver(event)
+    };
+  };
+  scope.registerProcessor = (_name: string, ctor: ProcessorClass) => { VadProcessor = ctor; };
+  await import('../worklets/vadProcessor');
+});
+
+class FakeClock implements Clock {
+  time = 0;
+  private timers = new Map<number, { at: number; callback: () => void }>();
+  private nextHandle = 1;
+
+  now() { return this.time; }
+
+  setTimeout(callback: () => void, ms: number) {
+    const handle = this.nextHandle++;
+    this.timers.set(handle, { at: this.time + ms, callback });
+    return handle;
+  }
+
+  clearTimeout(handle: number) {
+    this.timers.delete(handle);
+  }
+
+  advanceTo(time: number) {
+    this.time = time;
+    [...this.timers].filter(([, t]) => t.at <= time).forEach(([handle, t]) => {
+      this.timers.delete(handle);
+      t.callback();
+    });
+  }
+}
+
+class FakeRecorder implements SegmentRecorder {
+  readonly format = { mimeType: 'audio/webm', extension: 'webm' } as SegmentRecorder['format'];
+  isRecording = false;
+  starts = 0;
+  stops = 0;
+  rollovers = 0;
+
+  start() {
+    this.isRecording = true;
+    this.starts++;
+  }
+
+  async stop() {
+    if (!this.isRecording) return null;
+    this.isRecording = false;
+    this.stops++;
+    return new Blob(['audio'], { type: 'audio/webm' });
+  }
+
+  async rollover() {
+    this.rollovers++;
+    return new Blob(['audio'], { type: 'audio/webm' });
+  }
+
+  dispose() {}
+}
+
+/** One open microphone: the detector worklet fed with synthetic levels. */
+class FakeMicrophone {
+  processor: WorkletProcessor | null = null;
+  preRolls: number[] = [];
+  released = 0;
+
+  readonly source: AudioSource = async (settings, { onEvent }) => {
+    deliver = onEvent;
+    const processor = new VadProcessor({ processorOptions: { settings } });
+    this.processor = processor;
+    const input: Partial<AudioInput> = {
+      send: (command) => processor.port.onmessage?.({ data: command }),
+      configure: (next) => processor.port.onmessage?.({ data: { type: 'configure', settings: next } }),
+      monitor: () => {},
+      connectSegment: (preRoll) => { this.preRolls.push(preRoll.length); },
+      disconnectSegment: () => {},
+      isStale: async () => false,
+      release: () => { this.released++; },
+      close: () => {}
+    };
+    return input as AudioInput;
+  };
+}
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+function setup(overrides: Partial<AudioSettings> = {}, options: Partial<VoiceFlowRecorderOptions> = {}) {
+  const clock = new FakeClock();
+  const microphone = new FakeMicrophone();
+  const recorder = new FakeRecorder();
+  const createRecorder: RecorderFactory = async () => recorder;
+  const engine = new VoiceFlowRecorder({ ...SETTINGS, ...overrides }, {
+    clock,
+    audioSource: microphone.source,
+    createRecorder,
+    ...options
+  });
+  const statuses: RecorderStatus[] = [];
+  const recordings: Recording[] = [];
+  engine.on('status', status => statuses.push(status));
+  engine.on('recording', recording => recordings.push(recording));
+
+  // Plays `ms` of a constant level into the detector, one render quantum at
+  // a time, with the engine's clock keeping pace.
+  const play = (ms: number, amplitude: number) => {
+    const samples = Math.round(ms * SAMPLE_RATE / 1000);
+    for (let done = 0; done < samples; done += QUANTUM) {
+      const block = new Float32Array(Math.min(QUANTUM, samples - done)).fill(amplitude);
+      microphone.processor!.process([[block]]);
+      scope.currentFrame = (scope.currentFrame as number) + block.length;
+      clock.advanceTo(((scope.currentFrame as number) / SAMPLE_RATE) * 1000);
+    }
+  };
+
+  return { clock, microphone, recorder, engine, statuses, recordings, play };
+}
+
+beforeEach(() => {
+  scope.currentFrame = 0;
+});
+
+describe('VoiceFlowRecorder', () => {
+  it('runs IDLE → STARTING → LISTENING → RECORDING → STOPPING → IDLE', async () => {
+    const { engine, statuses, recordings, play } = setup();
+    expect(engine.status).toBe(RecorderStatus.IDLE);
+
+    await engine.start();
+    expect(statuses).toEqual([RecorderStatus.STARTING, RecorderStatus.LISTENING]);
+
+    play(300, SILENCE);
+    play(400, SPEECH);
+    expect(engine.status).toBe(RecorderStatus.RECORDING);
+
+    await engine.stop();
+    expect(statuses).toEqual([
+      RecorderStatus.STARTING,
+      RecorderStatus.LISTENING,
+      RecorderStatus.RECORDING,
+      RecorderStatus.STOPPING,
+      RecorderStatus.IDLE
+    ]);
+    expect(recordings).toHaveLength(1);
+    expect(recordings[0].captureMode).toBe('vad');
+  });
+
+  it('ends the segment once silence outlasts the timeout and post-roll', async () => {
+    const { engine, recordings, play } = setup();
+    await engine.start(true);
+    play(300, SILENCE);
+    play(400, SPEECH);
+
+    // Pre-roll (200) + post-roll (100) + timeout (500) after speech stops.
+    play(700, SILENCE);
+    expect(engine.status).toBe(RecorderStatus.RECORDING);
+    play(200, SILENCE);
+    await flush();
+    expect(engine.status).toBe(RecorderStatus.LISTENING);
+    expect(recordings).toHaveLength(1);
+  });
+
+  it('keeps the segment open through pauses shorter than the timeout', async () => {
+    const { engine, recordings, play } = setup();
+    await engine.start(true);
+    play(300, SILENCE);
+    play(300, SPEECH);
+    play(400, SILENCE);
+    play(300, SPEECH);
+    expect(engine.status).toBe(RecorderStatus.RECORDING);
+    expect(recordings).toHaveLength(0);
+  });
+
+  it('stops a single-shot run when its segment ends', async () => {
+    const { engine, play } = setup();
+    await engine.start(false);
+    play(300, SILENCE);
+    play(300, SPEECH);
+    play(1000, SILENCE);
+    await flush();
+    expect(engine.status).toBe(RecorderStatus.IDLE);
+  });
+
+  it('hands the buffered pre-roll to the segment', async () => {
+    const { engine, microphone, play } = setup();
+    await engine.start(true);
+    play(500, SILENCE);
+    play(100, SPEECH);
+    expect(microphone.preRolls).toHaveLength(1);
+    // The whole 200ms window, give or take the frame that opened it.
+    expect(microphone.preRolls[0]).toBeGreaterThanOrEqual(SAMPLE_RATE * 0.2 - QUANTUM);
+    expect(microphone.preRolls[0]).toBeLessThanOrEqual(SAMPLE_RATE * 0.2);
+  });
+
+  it('holds the segment open for the post-roll after the timeout', async () => {
+    const { engine, play } = setup({ preRoll: 0, postRoll: 400 });
+    await engine.start(true);
+    play(300, SILENCE);
+    play(300, SPEECH);
+    play(700, SILENCE);
+    expect(engine.status).toBe(RecorderStatus.RECORDING);
+    play(300, SILENCE);
+    expect(engine.status).toBe(RecorderStatus.LISTENING);
+  });
+
+  it('rolls long takes over into a new recording at the maximum length', async () => {
+    const { engine, recorder, recordings, play } = setup({ maxSegmentDuration: 1 });
+    await engine.start(true);
+    play(300, SILENCE);
+    play(2500, SPEECH);
+    await flush();
+    expect(recorder.rollovers).toBe(2);
+    expect(recordings).toHaveLength(2);
+    expect(engine.status).toBe(RecorderStatus.RECORDING);
+    recordings.forEach(r => expect(r.duration).toBeCloseTo(1, 1));
+  });
+
+  it('measures the normalisation gain before the take is streamed', async () => {
+    const completed: Recording[] = [];
+    const stream: SegmentStream = { timeslice: 250, send: () => {}, complete: r => completed.push(r), abort: () => {}, delivered: Promise.resolve(true) };
+    const { engine, recordings, play } = setup({ normalizeTarget: -20 }, {
+      openStream: () => stream,
+      measureGain: async (_blob, target) => target + 26
+    });
+    await engine.start(true);
+    play(300, SILENCE);
+    play(300, SPEECH);
+    await engine.stop();
+    expect(completed.map(r => r.gain)).toEqual([6]);
+    expect(recordings.map(r => r.gain)).toEqual([6]);
+  });
+
+  it('leaves takes that were not streamed unmeasured', async () => {
+    let measured = 0;
+    const { engine, recordings, play } = setup({ normalizeTarget: -20 }, {
+      measureGain: async () => { measured++; return 6; }
+    });
+    await engine.start(true);
+    play(300, SILENCE);
+    play(300, SPEECH);
+    await engine.stop();
+    expect(measured).toBe(0);
+    expect(recordings[0].gain).toBeUndefined();
+  });
+
+  it('records a timed capture regardless of speech and stops after it', async () => {
+    const { engine, recordings, play } = setup({ captureMode: 'timed', timedDuration: 2 });
+    await engine.start();
+    expect(engine.status).toBe(RecorderStatus.RECORDING);
+    play(1900, SILENCE);
+    expect(engine.status).toBe(RecorderStatus.RECORDING);
+    play(200, SILENCE);
+    await flush();
+    expect(engine.status).toBe(RecorderStatus.IDLE);
+    expect(recordings).toHaveLength(1);
+  });
+
+  it('carries a timed capture over a rebuilt input for the time it had left', async () => {
+    const { engine, recordings, play } = setup({ captureMode: 'timed', timedDuration: 2 });
+    await engine.start();
+    play(500, SILENCE);
+    await engine.rebuild();
+    expect(engine.status).toBe(RecorderStatus.RECORDING);
+    play(1400, SILENCE);
+    expect(engine.status).toBe(RecorderStatus.RECORDING);
+    play(200, SILENCE);
+    await flush();
+    expect(engine.status).toBe(RecorderStatus.IDLE);
+    expect(recordings).toHaveLength(2);
+  });
+
+  it('ignores speech while paused and picks up again on resume', async () => {
+    const { engine, recorder, play } = setup();
+    await engine.start(true);
+    engine.setPaused(true);
+    expect(engine.status).toBe(RecorderStatus.PAUSED);
+
+    play(300, SILENCE);
+    play(300, SPEECH);
+    expect(engine.status).toBe(RecorderStatus.PAUSED);
+    expect(recorder.starts).toBe(0);
+
+    engine.setPaused(false);
+    play(1000, SILENCE);
+    play(300, SPEECH);
+    expect(engine.status).toBe(RecorderStatus.RECORDING);
+  });
+
+  it('commits the running segment when paused mid-take', async () => {
+    const { engine, recordings, play } = setup();
+    await engine.start(true);
+    play(300, SILENCE);
+    play(300, SPEECH);
+    engine.setPaused(true);
+    await flush();
+    expect(engine.status).toBe(RecorderStatus.PAUSED);
+    expect(recordings).toHaveLength(1);
+  });
+
+  // The hook this engine replaced shut everything down when a segment end
+  // arrived with nothing recording.
+  it('does not shut down when a segment ends while nothing is recording', async () => {
+    const { engine, recorder, statuses, play } = setup();
+    await engine.start(true);
+    play(300, SILENCE);
+    play(300, SPEECH);
+    engine.closeSegment();
+    await flush();
+    expect(engine.status).toBe(RecorderStatus.LISTENING);
+
+    // The detector still finishes the segment it saw start.
+    play(1000, SILENCE);
+    await flush();
+    expect(engine.status).toBe(RecorderStatus.LISTENING);
+    expect(recorder.stops).toBe(1);
+    expect(statuses).not.toContain(RecorderStatus.STOPPING);
+  });
+
+  it('treats stop while idle as a no-op', async () => {
+    const { engine, statuses, microphone } = setup();
+    await engine.stop();
+    engine.closeSegment();
+    expect(statuses).toEqual([]);
+    expect(microphone.released).toBe(0);
+  });
+
+  it('joins a stop already in progress', async () => {
+    const { engine, play } = setup();
+    await engine.start(true);
+    play(300, SILENCE);
+    play(300, SPEECH);
+    const stopping = engine.stop();
+    await Promise.all([stopping, engine.stop()]);
+    expect(engine.status).toBe(RecorderStatus.IDLE);
+  });
+});
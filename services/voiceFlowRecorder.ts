@@ -0,0 +1,518 @@
+import { AudioSettings, CaptureMode, RecorderStatus, Recording, Session } from '../types';
+import { SegmentOptions, SegmentRecorder } from './segmentRecorder';
+import { SegmentStream, StreamSegment } from './segmentStream';
+import { AudioInput, AudioSource, RecorderFactory, createInputRecorder, openMicrophone } from './audioInput';
+import { MonitorMode } from './signalChain';
+import { extensionForMime } from './audioFormats';
+import { captureKey } from './audioDevices';
+import { createSession } from './sessions';
+import { loudnessGain } from './audioEdit';
+import { VadEvent } from '../worklets/vadProtocol';
+
+/** Time source, replaceable so the engine can run on a fake clock. */
+export interface Clock {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): number;
+  clearTimeout(handle: number): void;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => window.setTimeout(callback, ms),
+  clearTimeout: (handle) => window.clearTimeout(handle)
+};
+
+export interface RecorderLevel {
+  level: number;       // raw detector level, see toDisplayLevel
+  threshold: number;
+  calibrating: boolean;
+  silenceProgress: number; // 0 unless a segment is running
+}
+
+export interface RecorderEvents {
+  status: RecorderStatus;
+  level: RecorderLevel;
+  duration: number;    // seconds into the running segment
+  recording: Recording;
+  session: Session;    // emitted when a session opens and again when it ends
+  error: unknown;
+}
+
+export interface VoiceFlowRecorderOptions {
+  clock?: Clock;
+  audioSource?: AudioSource;
+  createRecorder?: RecorderFactory;
+  /** Called as each segment opens; a stream returned receives its audio live. */
+  openStream?: (segment: StreamSegment) => SegmentStream | null;
+  /**
+   * Measures the gain that normalises a streamed take, whose audio has gone
+   * out as captured; see AudioSettings.normalizeTarget.
+   */
+  measureGain?: (blob: Blob, targetDb: number) => Promise<number | null>;
+}
+
+export class RecorderStateError extends Error {
+  constructor(readonly from: RecorderStatus, readonly to: RecorderStatus) {
+    super(`Recorder cannot go from ${from} to ${to}`);
+    this.name = 'RecorderStateError';
+  }
+}
+
+const { IDLE, STARTING, LISTENING, RECORDING, PAUSED, STOPPING, ERROR } = RecorderStatus;
+
+// STARTING is also re-entered from a running state when the input is rebuilt.
+const TRANSITIONS: Record<RecorderStatus, RecorderStatus[]> = {
+  [IDLE]: [STARTING],
+  [STARTING]: [LISTENING, PAUSED, STOPPING, ERROR],
+  [LISTENING]: [RECORDING, PAUSED, STARTING, STOPPING, ERROR],
+  [RECORDING]: [LISTENING, PAUSED, STARTING, STOPPING, ERROR],
+  [PAUSED]: [LISTENING, RECORDING, STARTING, STOPPING, ERROR],
+  [STOPPING]: [IDLE],
+  [ERROR]: [STARTING]
+};
+
+// The segment being captured; its id carries over to the recording.
+interface OpenSegment extends StreamSegment {
+  sessionId?: string;
+  mode: CaptureMode;
+  stream: SegmentStream | null;
+}
+
+const segmentOptions = (stream: SegmentStream | null): SegmentOptions =>
+  stream ? { onChunk: chunk => stream.send(chunk), timeslice: stream.timeslice } : {};
+
+type Listener<T> = (payload: T) => void;
+
+class TypedEmitter<Events> {
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+  /** Subscribes to an event; returns the matching unsubscribe. */
+  on<K extends keyof Events>(type: K, listener: Listener<Events[K]>): () => void {
+    const set = this.listeners[type] ?? (this.listeners[type] = new Set());
+    set.add(listener);
+    return () => { set.delete(listener); };
+  }
+
+  protected emit<K extends keyof Events>(type: K, payload: Events[K]) {
+    this.listeners[type]?.forEach(listener => listener(payload));
+  }
+}
+
+/**
+ * Voice-activated capture without any UI attached: opens the input, turns
+ * detector events into segments and emits each finished one as a recording.
+ * Everything that touches the browser goes through the injected adapters.
+ */
+export class VoiceFlowRecorder extends TypedEmitter<RecorderEvents> {
+  private _status: RecorderStatus = IDLE;
+  private settings: AudioSettings;
+  private readonly clock: Clock;
+  private readonly audioSource: AudioSource;
+  private readonly createRecorder: RecorderFactory;
+  private readonly openStream: VoiceFlowRecorderOptions['openStream'];
+  private readonly measureGain: NonNullable<VoiceFlowRecorderOptions['measureGain']>;
+
+  private input: AudioInput | null = null;
+  private recorder: SegmentRecorder | null = null;
+  private segment: OpenSegment | null = null;
+  private session: Session | null = null;
+  private continuous = false;
+  // How this run captures; segments started by hand carry their own mode.
+  private mode: CaptureMode = 'vad';
+  // Whether the push-to-talk key is down, checked once the input is open.
+  private talking = false;
+  // Where the engine settles between segments: PAUSED or LISTENING.
+  private wantsPause = false;
+  private suspended = false;
+  private monitorMode: MonitorMode = 'off';
+  // Set while a timed capture runs; such segments ignore the detector.
+  private timedStop: number | null = null;
+  private timedUntil: number | null = null;
+  // Bumped whenever the input is released, so an open still in flight can
+  // tell it has been cancelled.
+  private generation = 0;
+  private stopping: Promise<void> | null = null;
+  private rebuilding = false;
+  // Finished takes are measured one at a time, so they are emitted in order.
+  private finishing: Promise<unknown> = Promise.resolve();
+
+  constructor(settings: AudioSettings, options: VoiceFlowRecorderOptions = {}) {
+    super();
+    this.settings = settings;
+    this.clock = options.clock ?? systemClock;
+    this.audioSource = options.audioSource ?? openMicrophone;
+    this.createRecorder = options.createRecorder ?? createInputRecorder;
+    this.openStream = options.openStream;
+    this.measureGain = options.measureGain ?? loudnessGain;
+  }
+
+  get status() {
+    return this._status;
+  }
+
+  get isContinuous() {
+    return this.continuous;
+  }
+
+  get isActive() {
+    return this._status !== IDLE && this._status !== ERROR && this._status !== STOPPING;
+  }
+
+  /** Applies new settings; input changes reopen the microphone. */
+  configure(settings: AudioSettings) {
+    const reopen = captureKey(settings) !== captureKey(this.settings);
+    this.settings = settings;
+    this.input?.configure(settings);
+    if (reopen) this.rebuild();
+  }
+
+  /** Plays the input back for an A/B comparison of the signal chain. */
+  monitor(mode: MonitorMode) {
+    this.monitorMode = mode;
+    this.input?.monitor(mode);
+  }
+
+  /**
+   * Opens the input in the configured capture mode. Continuous runs group
+   * their segments into a session; a timed start records once and stops.
+   */
+  async start(continuous = false) {
+    const { captureMode, timedDuration } = this.settings;
+    if (captureMode === 'timed') return this.recordFor(timedDuration);
+    await this.open(continuous, captureMode);
+  }
+
+  /** Releases the input; resolves once the last segment has been emitted. */
+  stop(): Promise<void> {
+    if (this.stopping) return this.stopping;
+    if (this._status === IDLE || this._status === ERROR) return Promise.resolve();
+    this.transition(STOPPING);
+    this.wantsPause = false;
+    const done = this.releaseGraph();
+    this.endSession();
+    this.stopping = done.finally(() => {
+      this.stopping = null;
+      this.transition(IDLE);
+    });
+    return this.stopping;
+  }
+
+  setPaused(paused: boolean) {
+    if (!this.isActive) return;
+    this.wantsPause = paused;
+    if (this._status === RECORDING) {
+      if (paused) this.closeSegment();
+    } else if (this._status === LISTENING || this._status === PAUSED) {
+      this.resume();
+    }
+  }
+
+  /**
+   * Stops the detector from hearing anything, e.g. while the speaker plays
+   * back remote audio. Unlike pausing, the detector also stops adapting and
+   * drops its pre-roll so none of the suspended audio leaks into a segment.
+   */
+  suspendDetection(suspended: boolean) {
+    if (this.suspended === suspended) return;
+    this.suspended = suspended;
+    this.input?.send({ type: 'suspend', suspended });
+    if (suspended) this.closeSegment();
+    else if (this._status === LISTENING) this.resume();
+  }
+
+  /**
+   * Records for a fixed time regardless of speech. Opens the input first if
+   * needed, in which case it is released again afterwards.
+   */
+  async recordFor(seconds: number) {
+    if (this._status === IDLE || this._status === ERROR) await this.open(false, 'timed');
+    if (!this.recorder) throw new Error('Microphone unavailable');
+    this.clearTimedCapture();
+    if (this._status !== RECORDING) this.startSegment(new Float32Array(0), 'timed');
+    this.timedUntil = this.clock.now() + seconds * 1000;
+    this.timedStop = this.clock.setTimeout(() => {
+      this.timedStop = null;
+      this.timedUntil = null;
+      this.endSegment();
+    }, seconds * 1000);
+  }
+
+  /**
+   * Records while the key or button is held, whatever the detector hears.
+   * The first press opens the input, which then stays armed for the next.
+   */
+  async pushToTalk(pressed: boolean) {
+    this.talking = pressed;
+    if (!pressed) {
+      if (this.segment?.mode === 'push-to-talk') this.closeSegment();
+      return;
+    }
+    if (this._status === IDLE || this._status === ERROR) await this.open(true, 'push-to-talk');
+    if (this.talking && this._status === LISTENING && !this.suspended) this.startSegment(new Float32Array(0), 'push-to-talk');
+  }
+
+  /** Cuts the running segment here; capture carries on in a new recording. */
+  mark() {
+    if (this._status === RECORDING) this.rolloverSegment();
+  }
+
+  /** Closes the running segment but keeps the input and detector alive. */
+  closeSegment() {
+    this.clearTimedCapture();
+    if (this._status !== RECORDING || !this.recorder) return;
+    this.commitSegment(this.recorder);
+    this.input?.disconnectSegment();
+    this.transition(this.settled());
+  }
+
+  recalibrate() {
+    this.input?.send({ type: 'recalibrate' });
+  }
+
+  /** Rebuilds the input if it no longer matches the chosen device. */
+  async checkInput() {
+    if (this.input && await this.input.isStale(this.settings.deviceId)) this.rebuild();
+  }
+
+  /**
+   * Reopens the input with the current settings, e.g. after the device was
+   * unplugged. The session and pause state carry over; a segment that was
+   * open is committed and the next one starts on the new input. A timed
+   * capture carries on there for the time it had left.
+   */
+  async rebuild() {
+    if (!this.input || this.rebuilding) return;
+    this.rebuilding = true;
+    try {
+      const timedLeft = this.timedUntil === null ? null : Math.max(0, this.timedUntil - this.clock.now());
+      this.clearTimedCapture();
+      this.releaseGraph();
+      this.transition(STARTING);
+      if (!await this.openInput()) return;
+      this.resume();
+      if (timedLeft === null) return;
+      if (timedLeft > 0) await this.recordFor(timedLeft / 1000);
+      else if (!this.continuous) await this.stop();
+    } finally {
+      this.rebuilding = false;
+    }
+  }
+
+  private async open(continuous: boolean, mode: CaptureMode) {
+    if (this.stopping) await this.stopping;
+    if (this._status !== IDLE && this._status !== ERROR) return;
+    this.continuous = continuous;
+    this.mode = mode;
+    this.transition(STARTING);
+    if (!await this.openInput()) return;
+    if (continuous) {
+      this.session = createSession(this.clock.now());
+      this.emit('session', this.session);
+    }
+    this.resume();
+  }
+
+  private settled() {
+    return this.wantsPause ? PAUSED : LISTENING;
+  }
+
+  // Manual capture, and push-to-talk while the key is still down, record
+  // whenever nothing holds them back, so they pick up again here.
+  private resume() {
+    this.transition(this.settled());
+    if (this._status !== LISTENING || this.suspended) return;
+    if (this.mode === 'manual') this.startSegment(new Float32Array(0), 'manual');
+    else if (this.talking) this.startSegment(new Float32Array(0), 'push-to-talk');
+  }
+
+  private transition(next: RecorderStatus) {
+    if (next === this._status) return;
+    if (!TRANSITIONS[this._status].includes(next)) throw new RecorderStateError(this._status, next);
+    this._status = next;
+    this.emit('status', next);
+  }
+
+  // Resolves false if the open failed (the engine is then in ERROR) or was
+  // cancelled by a stop in the meantime.
+  private async openInput(): Promise<boolean> {
+    const generation = ++this.generation;
+    let input: AudioInput | null = null;
+    try {
+      const opened = await this.audioSource(this.settings, {
+        onEvent: (event) => { if (this.input === opened) this.handleEvent(event); },
+        onEnded: () => { if (this.input === opened) this.rebuild(); }
+      });
+      input = opened;
+      if (this.suspended) input.send({ type: 'suspend', suspended: true });
+      if (this.monitorMode !== 'off') input.monitor(this.monitorMode);
+      const recorder = await this.createRecorder(input, this.settings.outputFormat);
+      if (generation !== this.generation) {
+        recorder.dispose();
+        input.release();
+        input.close();
+        return false;
+      }
+      this.input = input;
+      this.recorder = recorder;
+      return true;
+    } catch (e) {
+      input?.release();
+      input?.close();
+      if (generation !== this.generation) return false;
+      this.wantsPause = false;
+      this.endSession();
+      this.emit('error', e);
+      this.transition(ERROR);
+      return false;
+    }
+  }
+
+  // Tears down the input, committing any open segment. The input's context
+  // has to outlive the final segment, since WAV capture still needs its
+  // worklet to hand back the last samples.
+  private releaseGraph(): Promise<void> {
+    this.generation++;
+    this.clearTimedCapture();
+    const { input, recorder } = this;
+    this.input = null;
+    this.recorder = null;
+    const pending = recorder?.isRecording ? this.commitSegment(recorder) : Promise.resolve();
+    input?.release();
+    return pending.finally(() => {
+      recorder?.dispose();
+      input?.close();
+    });
+  }
+
+  private endSession() {
+    if (!this.session) return;
+    this.emit('session', { ...this.session, endedAt: this.clock.now() });
+    this.session = null;
+  }
+
+  private clearTimedCapture() {
+    if (this.timedStop !== null) this.clock.clearTimeout(this.timedStop);
+    this.timedStop = null;
+    this.timedUntil = null;
+  }
+
+  private handleEvent(event: VadEvent) {
+    switch (event.type) {
+      case 'level': {
+        const recording = this._status === RECORDING;
+        this.emit('level', {
+          level: event.level,
+          threshold: event.threshold,
+          calibrating: event.calibrating,
+          silenceProgress: recording ? event.silenceProgress : 0
+        });
+        if (recording && this.segment) {
+          const elapsed = (this.clock.now() - this.segment.startedAt) / 1000;
+          const limit = this.settings.maxSegmentDuration;
+          if (limit > 0 && elapsed >= limit) this.rolloverSegment();
+          else this.emit('duration', elapsed);
+        }
+        break;
+      }
+      case 'speech-start':
+        if (this._status === LISTENING && !this.suspended && this.mode === 'vad') this.startSegment(event.preRoll, 'vad');
+        break;
+      case 'segment-end':
+        if (this._status === RECORDING && this.timedStop === null && this.segment?.mode === 'vad') this.endSegment();
+        break;
+    }
+  }
+
+  private openSegment(mode: CaptureMode): OpenSegment {
+    const segment = { id: Math.random().toString(36).substring(2, 11), startedAt: this.clock.now() };
+    return { ...segment, sessionId: this.session?.id, mode, stream: this.openStream?.(segment) ?? null };
+  }
+
+  private startSegment(preRoll: Float32Array, mode: CaptureMode) {
+    const { input, recorder } = this;
+    if (!input || !recorder || recorder.isRecording) return;
+    try {
+      input.connectSegment(preRoll);
+      this.segment = this.openSegment(mode);
+      recorder.start(segmentOptions(this.segment.stream));
+      this.transition(RECORDING);
+      this.emit('duration', 0);
+    } catch (e) {
+      this.segment?.stream?.abort();
+      this.segment = null;
+      this.emit('error', e);
+    }
+  }
+
+  // A segment ending on its own closes it in continuous mode and stops the
+  // engine otherwise.
+  private endSegment() {
+    if (this._status !== RECORDING) return;
+    if (this.continuous) this.closeSegment();
+    else this.stop();
+  }
+
+  /**
+   * Hands the running capture over to a fresh segment once it reaches the
+   * maximum length, so long takes never build up into one huge blob.
+   */
+  private rolloverSegment() {
+    const { recorder, segment: previous } = this;
+    if (!recorder?.isRecording || !previous) return;
+    const next = this.openSegment(previous.mode);
+    this.segment = next;
+    this.finishSegment(previous, recorder.rollover(segmentOptions(next.stream)), next.startedAt, recorder.format.mimeType);
+    this.emit('duration', 0);
+  }
+
+  private commitSegment(recorder: SegmentRecorder): Promise<void> {
+    const segment = this.segment;
+    this.segment = null;
+    const encoded = recorder.stop();
+    return segment
+      ? this.finishSegment(segment, encoded, this.clock.now(), recorder.format.mimeType)
+      : encoded.then(() => {});
+  }
+
+  private async finishSegment(segment: OpenSegment, encoded: Promise<Blob | null>, stoppedAt: number, format: string) {
+    try {
+      const blob = await encoded;
+      if (!blob) {
+        segment.stream?.abort();
+        return;
+      }
+      const mimeType = blob.type || format;
+      const gain = segment.stream ? await this.normalizationGain(blob) : null;
+      const recording: Recording = {
+        id: segment.id,
+        blob,
+        url: URL.createObjectURL(blob),
+        timestamp: stoppedAt,
+        duration: (stoppedAt - segment.startedAt) / 1000,
+        mimeType,
+        extension: extensionForMime(mimeType),
+        captureMode: segment.mode,
+        ...(segment.sessionId && { sessionId: segment.sessionId }),
+        ...(gain !== null && { gain })
+      };
+      segment.stream?.complete(recording);
+      this.emit('recording', recording);
+    } catch (e) {
+      segment.stream?.abort();
+      this.emit('error', e);
+    }
+  }
+
+  // Measured before the stream completes, so the receiver learns the gain
+  // along with the rest of the take. A failed measurement leaves it unset.
+  private normalizationGain(blob: Blob): Promise<number | null> {
+    const target = this.settings.normalizeTarget;
+    if (target === 0) return Promise.resolve(null);
+    const measured = this.finishing.then(() => this.measureGain(blob, target)).catch(e => {
+      this.emit('error', e);
+      return null;
+    });
+    this.finishing = measured;
+    return measured;
+  }
+}
@@ -0,0 +1,44 @@
+/** 44-byte header for a 16-bit mono PCM WAV holding `length` samples. */
+export function wavHeader(length: number, sampleRate: number): ArrayBuffer {
+  const buffer = new ArrayBuffer(44);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, length * 2, true);
+  return buffer;
+}
+
+// Typed arrays use the platform byte order, which is little-endian on every
+// platform browsers ship on, matching what WAV expects.
+export function toPcm16(samples: Float32Array): Int16Array {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return pcm;
+}
+
+/**
+ * Encodes mono float PCM as a 16-bit little-endian WAV file. Works on any
+ * browser since it needs nothing beyond typed arrays.
+ */
+export function encodeWav(chunks: Float32Array[], sampleRate: number): Blob {
+  const length = chunks.reduce((sum, c) => sum + c.length, 0);
+  return new Blob([wavHeader(length, sampleRate), ...chunks.map(toPcm16)], { type: 'audio/wav' });
+}
@@ -0,0 +1,179 @@
+import { AutomationSettings, CaptureMode, ImportSource, Recording } from '../types';
+import { recordingFilename } from './audioFormats';
+
+export const SIGNATURE_HEADER = 'X-VoiceFlow-Signature';
+export const TIMESTAMP_HEADER = 'X-VoiceFlow-Timestamp';
+export const EVENT_HEADER = 'X-VoiceFlow-Event';
+export const SEGMENT_HEADER = 'X-VoiceFlow-Segment';
+export const SEQUENCE_HEADER = 'X-VoiceFlow-Sequence';
+
+export interface RecordingMetadata {
+  /**
+   * A recording sent again under an id already received replaces the
+   * earlier copy: it was trimmed or split after being forwarded.
+   */
+  id: string;
+  timestamp: number;
+  recordedAt: string;
+  duration: number;
+  mimeType: string;
+  filename: string;
+  size: number;
+  device: string;
+  transcription?: string;
+  summary?: string;
+  source?: ImportSource;
+  captureMode?: CaptureMode;
+  /** Set on the later part of a split; the earlier part keeps this id. */
+  splitFrom?: string;
+  /**
+   * dB to apply to reach the loudness target. Only set when the audio was
+   * sent as captured: streamed takes, whose chunks left before the take was
+   * measured, and takes that could not be re-encoded. Other takes arrive
+   * already normalised.
+   */
+  gain?: number;
+}
+
+export function recordingMetadata(settings: AutomationSettings, recording: Recording): RecordingMetadata {
+  return {
+    id: recording.id,
+    timestamp: recording.timestamp,
+    recordedAt: new Date(recording.timestamp).toISOString(),
+    duration: recording.duration,
+    mimeType: recording.mimeType,
+    filename: recordingFilename(recording, 'voice'),
+    size: recording.blob.size,
+    device: deviceName(settings),
+    transcription: recording.transcription,
+    summary: recording.summary,
+    source: recording.source,
+    captureMode: recording.captureMode,
+    splitFrom: recording.splitFrom,
+    gain: recording.gain
+  };
+}
+
+const deviceName = (settings: AutomationSettings) => settings.deviceName.trim() || settings.remoteTriggerId;
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), b => b.toString(16).padStart(2, '0')).join('');
+
+async function blobToBase64(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  // Chunked so String.fromCharCode never sees more arguments than it allows.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * HMAC-SHA256 over `<timestamp>.<raw body>`, hex encoded. Receivers recompute
+ * it with the shared secret and should reject stale timestamps.
+ */
+export async function signPayload(secret: string, timestamp: number, body: ArrayBuffer): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']
+  );
+  const prefix = encoder.encode(`${timestamp}.`);
+  const message = new Uint8Array(prefix.length + body.byteLength);
+  message.set(prefix, 0);
+  message.set(new Uint8Array(body), prefix.length);
+  return `sha256=${toHex(await crypto.subtle.sign('HMAC', key, message))}`;
+}
+
+function baseHeaders(settings: AutomationSettings): Headers {
+  const headers = new Headers();
+  settings.customHeaders.forEach(({ name, value }) => {
+    if (name.trim()) headers.set(name.trim(), value);
+  });
+  if (settings.authType === 'bearer' && settings.authToken) {
+    headers.set('Authorization', `Bearer ${settings.authToken}`);
+  } else if (settings.authType === 'basic' && settings.authUsername) {
+    const credentials = new TextEncoder().encode(`${settings.authUsername}:${settings.authPassword}`);
+    headers.set('Authorization', `Basic ${btoa(String.fromCharCode(...credentials))}`);
+  }
+  return headers;
+}
+
+/**
+ * Sends a body with the configured headers, auth and signature. The body is
+ * serialised up front so the signature covers exactly the bytes on the wire.
+ */
+async function send(
+  settings: AutomationSettings,
+  body: BodyInit,
+  contentType?: string,
+  extraHeaders: Record<string, string> = {}
+): Promise<Response> {
+  const serialised = new Request(settings.webhookUrl, { method: 'POST', body });
+  const bytes = await serialised.arrayBuffer();
+  const headers = baseHeaders(settings);
+  Object.entries(extraHeaders).forEach(([name, value]) => headers.set(name, value));
+  const type = contentType ?? serialised.headers.get('Content-Type');
+  if (type) headers.set('Content-Type', type);
+
+  if (settings.signingSecret) {
+    const timestamp = Date.now();
+    headers.set(TIMESTAMP_HEADER, String(timestamp));
+    headers.set(SIGNATURE_HEADER, await signPayload(settings.signingSecret, timestamp, bytes));
+  }
+
+  return fetch(settings.webhookUrl, {
+    method: 'POST',
+    headers,
+    body: bytes,
+    mode: 'cors'
+  });
+}
+
+export async function pingWebhook(settings: AutomationSettings): Promise<Response> {
+  return send(
+    settings,
+    JSON.stringify({ test: true, timestamp: Date.now(), device: deviceName(settings) }),
+    'application/json'
+  );
+}
+
+/** Uploads a recording; rejects on network failure or a non-2xx response. */
+export async function postRecording(settings: AutomationSettings, recording: Recording): Promise<void> {
+  const metadata = recordingMetadata(settings, recording);
+  let res: Response;
+  if (settings.payloadShape === 'json') {
+    const audio = await blobToBase64(recording.blob);
+    res = await send(settings, JSON.stringify({ ...metadata, audio }), 'application/json');
+  } else {
+    const formData = new FormData();
+    formData.append('file', recording.blob, metadata.filename);
+    formData.append('metadata', JSON.stringify(metadata));
+    res = await send(settings, formData);
+  }
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+}
+
+/**
+ * Streaming: each chunk is posted raw, tagged with its segment and a
+ * sequence number from 0. Receivers append chunks in sequence order.
+ */
+export async function postStreamChunk(settings: AutomationSettings, segmentId: string, sequence: number, chunk: Blob): Promise<void> {
+  const res = await send(settings, chunk, chunk.type || 'application/octet-stream', {
+    [EVENT_HEADER]: 'chunk',
+    [SEGMENT_HEADER]: segmentId,
+    [SEQUENCE_HEADER]: String(sequence)
+  });
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+}
+
+/** Closes a streamed segment; `chunks` lets receivers check nothing is missing. */
+export async function postSegmentComplete(settings: AutomationSettings, recording: Recording, chunks: number): Promise<void> {
+  const body = JSON.stringify({ event: 'segment-complete', chunks, ...recordingMetadata(settings, recording) });
+  const res = await send(settings, body, 'application/json', {
+    [EVENT_HEADER]: 'segment-complete',
+    [SEGMENT_HEADER]: recording.id,
+    [SEQUENCE_HEADER]: String(chunks)
+  });
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+}
@@ -1,23 +1,134 @@
 /**
- * VoiceFlow Minimal Service Worker
+ * VoiceFlow Service Worker
+ *
+ * Production builds fill in BUILD_VERSION and APP_SHELL (see vite.config.ts),
+ * so every build precaches its own files and the previous build's cache is
+ * dropped on activate. Under the dev server both stay empty and requests go
+ * straight to the network.
  */
 
-const CACHE_NAME = 'vf-v14';
+const BUILD_VERSION = 'dev';
+const APP_SHELL = [];
+
+const SHELL_CACHE = `vf-shell-${BUILD_VERSION}`;
+const RUNTIME_CACHE = 'vf-runtime';
+// Files shared into the app wait here until the page picks them up
+// (services/serviceWorker.ts).
+const SHARE_CACHE = 'vf-shared';
+const OUTBOX_SYNC_TAG = 'vf-outbox';
+const FLUSH_TIMEOUT_MS = 60000;
+
+// The page loads Tailwind and its fonts from these at runtime.
+const RUNTIME_ORIGINS = [
+  'https://cdn.tailwindcss.com',
+  'https://fonts.googleapis.com',
+  'https://fonts.gstatic.com',
+  'https://cdn-icons-png.flaticon.com'
+];
+
+const scopeUrl = (path) => new URL(path, self.registration.scope).href;
 
 self.addEventListener('install', (event) => {
-  self.skipWaiting();
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.addAll(APP_SHELL))
+      .then(() => self.skipWaiting())
+  );
 });
 
 self.addEventListener('activate', (event) => {
+  const keep = [SHELL_CACHE, RUNTIME_CACHE, SHARE_CACHE];
   event.waitUntil(
-    caches.keys().then((keys) => 
-      Promise.all(keys.filter(k => k !== CACHE_NAME).map(k => caches.delete(k)))
+    caches.keys().then((keys) =>
+      Promise.all(keys.filter(k => !keep.includes(k)).map(k => caches.delete(k)))
     )
   );
   return self.clients.claim();
 });
 
 self.addEventListener('fetch', (event) => {
-  // Pass-through handler
-  return;
-});
\ No newline at end of file
+  const request = event.request;
+  const url = new URL(request.url);
+
+  if (request.method === 'POST' && url.href === scopeUrl('share-target')) {
+    event.respondWith(receiveShare(request));
+    return;
+  }
+  if (request.method !== 'GET' || APP_SHELL.length === 0) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(caches.match(request, { cacheName: SHELL_CACHE }).then(hit => hit || fetch(request)));
+  } else if (RUNTIME_ORIGINS.includes(url.origin)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
+
+// Fresh pages when online; the cached shell when not.
+async function networkFirst(request) {
+  try {
+    return await fetch(request);
+  } catch (err) {
+    const shell = await caches.match(scopeUrl('index.html'), { cacheName: SHELL_CACHE });
+    if (shell) return shell;
+    throw err;
+  }
+}
+
+async function staleWhileRevalidate(request) {
+  const cache = await caches.open(RUNTIME_CACHE);
+  const cached = await cache.match(request);
+  const network = fetch(request).then((response) => {
+    // Stylesheet and script tags fetch these without CORS, hence opaque.
+    if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+    return response;
+  });
+  if (cached) {
+    network.catch(() => {});
+    return cached;
+  }
+  return network;
+}
+
+/**
+ * Web Share Target: stash the shared files and send the page to pick them
+ * up. The redirect turns the POST into a normal navigation.
+ */
+async function receiveShare(request) {
+  const data = await request.formData();
+  const files = data.getAll('audio').filter(f => f instanceof File);
+  const cache = await caches.open(SHARE_CACHE);
+  const stamp = Date.now();
+  await Promise.all(files.map((file, i) =>
+    cache.put(scopeUrl(`shared/${stamp}-${i}`), new Response(file, {
+      headers: {
+        ...(file.type && { 'Content-Type': file.type }),
+        'X-File-Name': encodeURIComponent(file.name),
+        'X-Last-Modified': String(file.lastModified)
+      }
+    }))
+  ));
+  return Response.redirect(scopeUrl(`./?shared=${files.length}`), 303);
+}
+
+/**
+ * Background sync: connectivity is back, so ask an open window to send
+ * its outbox. Only the page holds the webhook settings and credentials, so
+ * with no window open this fails and the browser tries again later.
+ */
+self.addEventListener('sync', (event) => {
+  if (event.tag === OUTBOX_SYNC_TAG) event.waitUntil(flushOutbox());
+});
+
+async function flushOutbox() {
+  const windows = await self.clients.matchAll({ type: 'window' });
+  if (windows.length === 0) throw new Error('No open window to send the outbox');
+  const done = await new Promise((resolve) => {
+    const channel = new MessageChannel();
+    channel.port1.onmessage = (event) => resolve(!!(event.data && event.data.done));
+    windows[0].postMessage({ type: 'flush-outbox' }, [channel.port2]);
+    setTimeout(() => resolve(false), FLUSH_TIMEOUT_MS);
+  });
+  if (!done) throw new Error('Outbox still has pending uploads');
+}
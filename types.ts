@@ -5,24 +5,195 @@ export interface Recording {
   url: string;
   timestamp: number;
   duration: number;
+  mimeType: string;
+  extension: string;
   transcription?: string;
   summary?: string;
+  processing?: ProcessingStatus;
+  original?: OriginalAudio; // captured audio, kept once the recording is edited
+  sessionId?: string;
+  source?: ImportSource;   // set when the recording was cut from an imported file
+  pinned?: boolean;        // exempt from the retention policy
+  captureMode?: CaptureMode; // unset for imported recordings
+  splitFrom?: string;      // id of the recording this was split off
+  gain?: number;           // dB still needed to reach the normalisation target, for audio sent as captured (streamed takes)
 }
 
+export interface ImportSource {
+  fileName: string;
+  offset: number; // s into the file where the recording starts
+}
+
+/** One continuous listening run, from starting the loop to shutting it down. */
+export interface Session {
+  id: string;
+  startedAt: number;
+  endedAt?: number; // unset while the session is running
+}
+
+export interface OriginalAudio {
+  blob: Blob;
+  timestamp: number;
+  duration: number;
+  mimeType: string;
+  extension: string;
+  source?: ImportSource;
+}
+
+export type ProcessingState = 'queued' | 'running' | 'done' | 'failed';
+
+export interface ProcessingStatus {
+  state: ProcessingState;
+  error?: string;
+  updatedAt: number;
+}
+
+export type DetectorType = 'energy-band' | 'level';
+
+/**
+ * How captured segments start and end: on detected speech, while a key or
+ * button is held, from start until stop, or for a fixed time.
+ */
+export type CaptureMode = 'vad' | 'push-to-talk' | 'manual' | 'timed';
+
+export type OutputFormat = 'auto' | 'webm' | 'ogg' | 'mp4' | 'wav';
+
 export interface AudioSettings {
+  captureMode: CaptureMode;
+  timedDuration: number; // s recorded per start in timed mode
+  detector: DetectorType;
   sensitivity: number; // 0 to 100
   silenceTimeout: number; // ms
+  preRoll: number; // ms of audio kept from before the voice trigger
+  postRoll: number; // ms of audio kept after the silence timeout
+  minSpeechDuration: number; // ms above threshold before a segment opens
+  hysteresis: number; // dB between the start and stop thresholds
+  calibrationDuration: number; // ms spent measuring the noise floor on start
+  outputFormat: OutputFormat;
   autoStart: boolean;
+  halfDuplex: boolean; // suspend detection while remote audio plays
+  playbackTail: number; // ms detection stays suspended after playback ends
+  deviceId: string; // input device; empty follows the system default
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  channelCount: number;
+  sampleRate: number; // Hz; 0 leaves it to the browser
+  maxSegmentDuration: number; // s; longer segments roll over into a new recording, 0 for no limit
+  // Signal chain applied to captured audio; the detector hears the raw input.
+  highPassFrequency: number; // Hz; 0 turns the filter off
+  gateThreshold: number; // dBFS the noise gate opens at; 0 turns it off
+  compressorThreshold: number; // dBFS; 0 turns the compressor off
+  compressorRatio: number; // 20 and up acts as a limiter
+  makeupGain: number; // dB
+  normalizeTarget: number; // dBFS loudness each take is brought to after capture; 0 turns it off
+}
+
+export type WebhookPayloadShape = 'multipart' | 'json';
+
+export type WebhookAuthType = 'none' | 'bearer' | 'basic';
+
+export interface WebhookHeader {
+  name: string;
+  value: string;
 }
 
+export type StreamMode = 'off' | 'http' | 'websocket';
+
+export type TriggerTransportType = 'ntfy' | 'sse' | 'websocket' | 'mqtt';
+
 export interface AutomationSettings {
-  remoteTriggerId: string; // The ntfy.sh topic ID for incoming audio URLs
+  remoteTriggerId: string; // The ntfy/MQTT topic ID for incoming audio URLs
+  triggerTransport: TriggerTransportType;
+  ntfyBaseUrl: string;     // Self-hosted ntfy server; empty means ntfy.sh
+  ntfyToken: string;
+  triggerUrl: string;      // Generic SSE or WebSocket endpoint
+  mqttUrl: string;         // MQTT broker WebSocket URL
+  mqttUsername: string;
+  mqttPassword: string;
+  replyTopic: string;      // Command replies; ntfy/MQTT topic, or an HTTP URL for SSE
   webhookUrl: string;      // The target URL for outgoing recordings
+  deviceName: string;      // Reported to the webhook; falls back to remoteTriggerId
+  payloadShape: WebhookPayloadShape;
+  authType: WebhookAuthType;
+  authToken: string;       // Bearer token
+  authUsername: string;    // Basic auth
+  authPassword: string;
+  customHeaders: WebhookHeader[];
+  signingSecret: string;   // HMAC-SHA256 key; signing is off while empty
+  streamMode: StreamMode;  // Send audio while it is being captured
+  streamUrl: string;       // WebSocket URL for streaming; HTTP streaming posts to webhookUrl
+  streamTimeslice: number; // ms of audio per streamed chunk
+}
+
+export type TranscriptionProviderType = 'none' | 'openai' | 'whisper-cpp';
+
+export type SummaryProviderType = 'none' | 'openai';
+
+export interface ProcessingSettings {
+  transcriptionProvider: TranscriptionProviderType;
+  transcriptionUrl: string;    // Base URL; empty uses the provider default
+  transcriptionApiKey: string;
+  transcriptionModel: string;
+  language: string;            // ISO 639-1 hint; empty lets the model detect it
+  summaryProvider: SummaryProviderType;
+  summaryUrl: string;          // OpenAI-compatible base URL, e.g. a local llama.cpp or Ollama server
+  summaryApiKey: string;
+  summaryModel: string;
+  summaryPrompt: string;
+}
+
+/**
+ * A window that repeats every week, in minutes after midnight on the
+ * schedule's wall clock. An end at or before the start runs past midnight
+ * into the next day.
+ */
+export interface WeeklyWindow {
+  id: string;
+  days: number[]; // 0 = Sunday
+  start: number;
+  end: number;
+}
+
+export interface OneOffWindow {
+  id: string;
+  start: number; // epoch ms
+  end: number;
+}
+
+export interface ScheduleSettings {
+  enabled: boolean;
+  timeZone: string; // IANA name; empty follows the device
+  windows: WeeklyWindow[];
+  oneOff: OneOffWindow[];
+  quietHours: WeeklyWindow[]; // never listen automatically, even inside a window
+}
+
+/** Limits on the archive, oldest recordings going first; 0 means no limit. */
+export interface RetentionSettings {
+  maxAgeDays: number;
+  maxSizeMB: number;
+  maxCount: number;
+}
+
+export type DeliveryState = 'pending' | 'sending' | 'delivered' | 'failed';
+
+export interface DeliveryRecord {
+  recordingId: string;
+  state: DeliveryState;
+  attempts: number;
+  lastError?: string;
+  createdAt: number;
+  updatedAt: number;
+  nextAttemptAt: number;
 }
 
 export enum RecorderStatus {
   IDLE = 'IDLE',
+  STARTING = 'STARTING',   // Opening the microphone
   LISTENING = 'LISTENING',
   RECORDING = 'RECORDING',
+  PAUSED = 'PAUSED',       // Microphone open, detection ignored
+  STOPPING = 'STOPPING',   // Finishing the last segment
   ERROR = 'ERROR'
 }
@@ -1,7 +1,36 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import crypto from 'crypto';
+import { Plugin, defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
+/**
+ * Emits sw.js with this build's files as its precached app shell. The
+ * version is a hash of the shell, so any change to it installs a new cache.
+ */
+function serviceWorker(): Plugin {
+  return {
+    name: 'voiceflow-service-worker',
+    apply: 'build',
+    enforce: 'post',
+    generateBundle(_options, bundle) {
+      // Files from public/ are copied as they are and not part of the bundle.
+      const shell = [...Object.keys(bundle), 'manifest.json'].sort();
+      const hash = crypto.createHash('sha256');
+      shell.forEach(file => hash.update(file));
+      const html = bundle['index.html'];
+      if (html?.type === 'asset') hash.update(html.source);
+
+      const source = fs.readFileSync(path.resolve(__dirname, 'sw.js'), 'utf8');
+      const built = source
+        .replace("const BUILD_VERSION = 'dev';", `const BUILD_VERSION = '${hash.digest('hex').slice(0, 12)}';`)
+        .replace('const APP_SHELL = [];', `const APP_SHELL = ${JSON.stringify(shell)};`);
+      if (built === source || built.includes('const APP_SHELL = [];')) this.error('sw.js placeholders not found');
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source: built });
+    }
+  };
+}
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +38,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
@@ -0,0 +1,67 @@
+import { NOISE_GATE_PROCESSOR_NAME, NoiseGateCommand } from './vadProtocol';
+
+// AudioWorkletGlobalScope is not part of the DOM lib.
+declare const sampleRate: number;
+declare function registerProcessor(name: string, ctor: unknown): void;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: unknown);
+}
+
+const ATTACK_MS = 2;
+const HOLD_MS = 120;
+const RELEASE_MS = 150;
+// Closing fully makes the gate audibly chop word endings; this much
+// attenuation already takes hiss out of the pauses.
+const CLOSED_GAIN = 0.03;
+
+const coefficient = (ms: number) => 1 - Math.exp(-1 / (sampleRate * ms / 1000));
+
+/**
+ * Mutes the input while it stays below the threshold. The gate opens fast
+ * on the loudest channel, holds open through short dips and then fades out.
+ */
+class NoiseGateProcessor extends AudioWorkletProcessor {
+  private threshold = 0;
+  private envelope = 0;
+  private gain = CLOSED_GAIN;
+  private holdLeft = 0;
+  private readonly attack = coefficient(ATTACK_MS);
+  private readonly release = coefficient(RELEASE_MS);
+  private readonly envelopeRelease = coefficient(HOLD_MS / 4);
+  private readonly holdSamples = Math.round(sampleRate * HOLD_MS / 1000);
+
+  constructor(options: { processorOptions: { threshold: number } }) {
+    super(options);
+    this.setThreshold(options.processorOptions.threshold);
+    this.port.onmessage = (e: MessageEvent<NoiseGateCommand>) => {
+      if (e.data.type === 'configure') this.setThreshold(e.data.threshold);
+    };
+  }
+
+  private setThreshold(db: number) {
+    this.threshold = Math.pow(10, db / 20);
+  }
+
+  process(inputs: Float32Array[][], outputs: Float32Array[][]) {
+    const input = inputs[0];
+    const output = outputs[0];
+    if (!input || input.length === 0) return true;
+    const length = input[0].length;
+    for (let i = 0; i < length; i++) {
+      let peak = 0;
+      for (let c = 0; c < input.length; c++) peak = Math.max(peak, Math.abs(input[c][i]));
+      this.envelope = peak > this.envelope ? peak : this.envelope + (peak - this.envelope) * this.envelopeRelease;
+
+      if (this.envelope >= this.threshold) this.holdLeft = this.holdSamples;
+      else if (this.holdLeft > 0) this.holdLeft--;
+      const target = this.holdLeft > 0 ? 1 : CLOSED_GAIN;
+      this.gain += (target - this.gain) * (target > this.gain ? this.attack : this.release);
+
+      for (let c = 0; c < output.length; c++) output[c][i] = (input[c] ?? input[0])[i] * this.gain;
+    }
+    return true;
+  }
+}
+
+registerProcessor(NOISE_GATE_PROCESSOR_NAME, NoiseGateProcessor);
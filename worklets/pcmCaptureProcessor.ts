@@ -0,0 +1,65 @@
+import { PCM_CAPTURE_PROCESSOR_NAME, PcmCaptureCommand, PcmCaptureEvent } from './vadProtocol';
+
+declare function registerProcessor(name: string, ctor: unknown): void;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: unknown);
+}
+
+const CHUNK_SAMPLES = 8192;
+
+/**
+ * Hands raw mono PCM to the main thread while recording, for encoders that
+ * cannot go through MediaRecorder. Chunks are always posted before the
+ * matching `stopped` event.
+ */
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  private recording = false;
+  private chunk = new Float32Array(CHUNK_SAMPLES);
+  private fill = 0;
+
+  constructor(options?: unknown) {
+    super(options);
+    this.port.onmessage = (e: MessageEvent<PcmCaptureCommand>) => {
+      if (e.data.type === 'start') {
+        this.fill = 0;
+        this.recording = true;
+      } else if (e.data.type === 'stop') {
+        this.recording = false;
+        this.flush();
+        this.post({ type: 'stopped' });
+      } else if (e.data.type === 'split') {
+        // Between two render quanta, so no sample is lost or repeated.
+        this.flush();
+        this.post({ type: 'stopped' });
+      }
+    };
+  }
+
+  private post(event: PcmCaptureEvent, transfer: Transferable[] = []) {
+    this.port.postMessage(event, transfer);
+  }
+
+  private flush() {
+    if (this.fill === 0) return;
+    const samples = this.chunk.slice(0, this.fill);
+    this.fill = 0;
+    this.post({ type: 'chunk', samples }, [samples.buffer]);
+  }
+
+  process(inputs: Float32Array[][]) {
+    const channel = inputs[0]?.[0];
+    if (!this.recording || !channel) return true;
+    let offset = 0;
+    while (offset < channel.length) {
+      const take = Math.min(channel.length - offset, CHUNK_SAMPLES - this.fill);
+      this.chunk.set(channel.subarray(offset, offset + take), this.fill);
+      this.fill += take;
+      offset += take;
+      if (this.fill === CHUNK_SAMPLES) this.flush();
+    }
+    return true;
+  }
+}
+
+registerProcessor(PCM_CAPTURE_PROCESSOR_NAME, PcmCaptureProcessor);
@@ -0,0 +1,159 @@
+import { AudioSettings } from '../types';
+import { PcmRingBuffer } from '../services/pcmRingBuffer';
+import { MIN_DB, VoiceDetector, createDetector } from '../services/voiceDetector';
+import { VAD_PROCESSOR_NAME, VAD_FRAME_MS, MAX_PRE_ROLL_MS, VadCommand, VadEvent } from './vadProtocol';
+
+// AudioWorkletGlobalScope is not part of the DOM lib.
+declare const sampleRate: number;
+declare const currentFrame: number;
+declare function registerProcessor(name: string, ctor: unknown): void;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: unknown);
+}
+
+const LEVEL_INTERVAL_MS = 50;
+
+/**
+ * Runs the configured VoiceDetector on the audio rendering thread. Timing is
+ * counted in samples, so segments open and close on schedule even while the
+ * page is hidden and its timers and animation frames are throttled.
+ */
+class VadProcessor extends AudioWorkletProcessor {
+  private settings: AudioSettings;
+  private detector: VoiceDetector;
+  private preRoll: PcmRingBuffer | null = null;
+  private frame: Float32Array;
+  private frameFill = 0;
+  private isSpeech = false;
+  private silenceStartedAt: number | null = null;
+  private segmentTailMs = 0;
+  private segmentEnded = true;
+  private lastLevelAt = -Infinity;
+  private suspended = false;
+  private lastThreshold = MIN_DB;
+
+  constructor(options: { processorOptions: { settings: AudioSettings } }) {
+    super(options);
+    this.settings = options.processorOptions.settings;
+    this.detector = createDetector(this.settings);
+    this.frame = new Float32Array(Math.round(sampleRate * VAD_FRAME_MS / 1000));
+    this.resizePreRoll();
+    this.port.onmessage = (e: MessageEvent<VadCommand>) => this.handleCommand(e.data);
+  }
+
+  private handleCommand(command: VadCommand) {
+    if (command.type === 'configure') {
+      const previous = this.settings;
+      this.settings = command.settings;
+      if (previous.detector !== command.settings.detector) {
+        this.detector = createDetector(command.settings);
+      } else {
+        this.detector.configure(command.settings);
+      }
+      if (previous.preRoll !== command.settings.preRoll) this.resizePreRoll();
+    } else if (command.type === 'recalibrate') {
+      this.detector.reset();
+    } else if (command.type === 'suspend') {
+      this.setSuspended(command.suspended);
+    }
+  }
+
+  // While suspended nothing is analysed or buffered, so the pre-roll of the
+  // next segment cannot contain audio from the suspended period.
+  private setSuspended(suspended: boolean) {
+    if (suspended === this.suspended) return;
+    this.suspended = suspended;
+    this.isSpeech = false;
+    this.silenceStartedAt = null;
+    this.segmentEnded = true;
+    this.frameFill = 0;
+    this.preRoll?.clear();
+    if (suspended) {
+      this.post({ type: 'level', level: MIN_DB, threshold: this.lastThreshold, calibrating: false, silenceProgress: 0 });
+    }
+  }
+
+  private resizePreRoll() {
+    const ms = Math.min(Math.max(0, this.settings.preRoll ?? 0), MAX_PRE_ROLL_MS);
+    this.preRoll = ms > 0 ? new PcmRingBuffer(sampleRate * ms / 1000) : null;
+  }
+
+  private now() {
+    return (currentFrame / sampleRate) * 1000;
+  }
+
+  private post(event: VadEvent, transfer: Transferable[] = []) {
+    this.port.postMessage(event, transfer);
+  }
+
+  private processFrame(samples: Float32Array) {
+    const now = this.now();
+    const vad = this.detector.process({ samples, sampleRate, timestamp: now });
+    this.lastThreshold = vad.threshold;
+
+    if (vad.isSpeech && !this.isSpeech) {
+      this.isSpeech = true;
+      this.silenceStartedAt = null;
+      if (this.segmentEnded) {
+        const preRoll = this.preRoll?.read() ?? new Float32Array(0);
+        // The recorder hears the live input this much later, so the tail
+        // has to cover it on top of the post-roll.
+        this.segmentTailMs = (preRoll.length / sampleRate) * 1000;
+        this.segmentEnded = false;
+        this.post({ type: 'speech-start', preRoll }, [preRoll.buffer]);
+      } else {
+        this.post({ type: 'speech-start', preRoll: new Float32Array(0) });
+      }
+    } else if (!vad.isSpeech && this.isSpeech) {
+      this.isSpeech = false;
+      this.silenceStartedAt = now;
+      this.post({ type: 'speech-end' });
+    }
+
+    let silenceProgress = 0;
+    if (this.silenceStartedAt !== null && !this.segmentEnded) {
+      const elapsed = now - this.silenceStartedAt;
+      silenceProgress = Math.min(elapsed / this.settings.silenceTimeout, 1);
+      const tail = this.segmentTailMs + Math.max(0, this.settings.postRoll ?? 0);
+      if (elapsed >= this.settings.silenceTimeout + tail) {
+        this.segmentEnded = true;
+        this.silenceStartedAt = null;
+        silenceProgress = 0;
+        this.post({ type: 'segment-end' });
+      }
+    }
+
+    if (now - this.lastLevelAt >= LEVEL_INTERVAL_MS) {
+      this.lastLevelAt = now;
+      this.post({
+        type: 'level',
+        level: vad.level,
+        threshold: vad.threshold,
+        calibrating: vad.calibrating,
+        silenceProgress
+      });
+    }
+  }
+
+  process(inputs: Float32Array[][]) {
+    const channel = inputs[0]?.[0];
+    if (!channel || this.suspended) return true;
+    this.preRoll?.write(channel);
+
+    let offset = 0;
+    while (offset < channel.length) {
+      const take = Math.min(channel.length - offset, this.frame.length - this.frameFill);
+      this.frame.set(channel.subarray(offset, offset + take), this.frameFill);
+      this.frameFill += take;
+      offset += take;
+      if (this.frameFill === this.frame.length) {
+        this.processFrame(this.frame);
+        this.frameFill = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor(VAD_PROCESSOR_NAME, VadProcessor);
@@ -0,0 +1,39 @@
+import { AudioSettings } from '../types';
+
+// Shared between the main thread and the worklets. Kept apart from the
+// processor modules, which call registerProcessor and so cannot be loaded on
+// the main thread.
+
+export const VAD_PROCESSOR_NAME = 'vf-vad-processor';
+
+export const MAX_PRE_ROLL_MS = 2000;
+
+// Detectors see the input in frames of this length.
+export const VAD_FRAME_MS = 20;
+
+export type VadCommand =
+  | { type: 'configure'; settings: AudioSettings }
+  | { type: 'recalibrate' }
+  | { type: 'suspend'; suspended: boolean };
+
+export type VadEvent =
+  | { type: 'level'; level: number; threshold: number; calibrating: boolean; silenceProgress: number }
+  | { type: 'speech-start'; preRoll: Float32Array }
+  | { type: 'speech-end' }
+  | { type: 'segment-end' };
+
+export const PCM_CAPTURE_PROCESSOR_NAME = 'vf-pcm-capture-processor';
+
+export type PcmCaptureCommand =
+  | { type: 'start' }
+  | { type: 'stop' }
+  | { type: 'split' }; // ends the segment and keeps capturing into the next
+
+export type PcmCaptureEvent =
+  | { type: 'chunk'; samples: Float32Array }
+  | { type: 'stopped' };
+
+export const NOISE_GATE_PROCESSOR_NAME = 'vf-noise-gate-processor';
+
+export type NoiseGateCommand =
+  | { type: 'configure'; threshold: number }; // dBFS